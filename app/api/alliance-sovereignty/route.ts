@@ -1,25 +1,78 @@
 import { NextResponse } from 'next/server';
 import { ESIAgent } from '@/lib/esi-agent';
+import type { AllianceSovereigntySystem, SovereigntySystemStructures } from '@/lib/sovereignty';
+import { getStaleDataHeaders } from '@/lib/stale-data';
+
+/**
+ * How soon to try the structures endpoint again after it failed
+ */
+const STRUCTURES_RETRY_DELAY = 60 * 1000;
 
 let cachedData: {
-  data: Record<number, { alliance_id: number; alliance_name: string }>;
-  timestamp: number;
+  data: Record<number, AllianceSovereigntySystem>;
+  /** Set when the structures are last known (or missing) because their endpoint failed */
+  stale: boolean;
+  expiresAt: number;
 } | null = null;
-const CACHE_DURATION = 60 * 60 * 1000;
+
+let cachedStructures: Record<number, SovereigntySystemStructures> | null = null;
+
+/**
+ * Load structures on their own, so an outage of that endpoint only loses ADM, not ownership
+ */
+async function loadStructures(): Promise<{
+  structures: Record<number, SovereigntySystemStructures>;
+  stale: boolean;
+  expiresAt: number;
+}> {
+  try {
+    const { data: sovStructures, expiresAt } = await ESIAgent.getSovereigntyStructures();
+
+    const structures: Record<number, SovereigntySystemStructures> = {};
+    for (const structure of sovStructures) {
+      const system = (structures[structure.solar_system_id] ??= { adm: null, structures: [] });
+      system.structures.push({
+        structure_id: structure.structure_id,
+        structure_type_id: structure.structure_type_id,
+        vulnerable_start_time: structure.vulnerable_start_time ?? null,
+        vulnerable_end_time: structure.vulnerable_end_time ?? null,
+      });
+      if (structure.vulnerability_occupancy_level !== undefined) {
+        system.adm = Math.max(system.adm ?? 0, structure.vulnerability_occupancy_level);
+      }
+    }
+
+    cachedStructures = structures;
+    return { structures, stale: false, expiresAt };
+  } catch (error) {
+    console.error('Error fetching sovereignty structures:', error);
+    return {
+      structures: cachedStructures ?? {},
+      stale: true,
+      expiresAt: Date.now() + STRUCTURES_RETRY_DELAY,
+    };
+  }
+}
 
 export async function GET() {
   try {
-    if (cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
-      return NextResponse.json(cachedData.data);
+    if (cachedData && Date.now() < cachedData.expiresAt) {
+      return NextResponse.json(
+        cachedData.data,
+        cachedData.stale ? { headers: getStaleDataHeaders() } : undefined
+      );
     }
 
-    const sovMap = await ESIAgent.getSovereigntyMap();
+    const [{ data: sovMap, expiresAt }, structureData] = await Promise.all([
+      ESIAgent.getSovereigntyMap(),
+      loadStructures(),
+    ]);
 
     const allianceSystems = sovMap.filter((entry) => entry.alliance_id && !entry.faction_id);
 
     const allianceIds = Array.from(new Set(allianceSystems.map((entry) => entry.alliance_id!)));
 
-    const allianceNames = await ESIAgent.getNames(allianceIds);
+    const { data: allianceNames } = await ESIAgent.getNames(allianceIds);
 
     const allianceNameMap: Record<number, string> = {};
     for (const alliance of allianceNames) {
@@ -28,24 +81,32 @@ export async function GET() {
       }
     }
 
-    const result: Record<number, { alliance_id: number; alliance_name: string }> = {};
+    const result: Record<number, AllianceSovereigntySystem> = {};
     for (const entry of allianceSystems) {
       if (entry.alliance_id) {
         result[entry.system_id] = {
           alliance_id: entry.alliance_id,
           alliance_name: allianceNameMap[entry.alliance_id] || `Alliance ${entry.alliance_id}`,
+          ...structureData.structures[entry.system_id],
         };
       }
     }
 
     cachedData = {
       data: result,
-      timestamp: Date.now(),
+      stale: structureData.stale,
+      expiresAt: Math.min(expiresAt, structureData.expiresAt),
     };
 
-    return NextResponse.json(result);
+    return NextResponse.json(
+      result,
+      structureData.stale ? { headers: getStaleDataHeaders() } : undefined
+    );
   } catch (error) {
     console.error('Error fetching alliance sovereignty data:', error);
+    if (cachedData) {
+      return NextResponse.json(cachedData.data, { headers: getStaleDataHeaders() });
+    }
     return NextResponse.json(
       { error: 'Failed to load alliance sovereignty data' },
       { status: 500 }
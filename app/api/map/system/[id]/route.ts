@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { findRecordByKey, findRecords } from '@/lib/sde-loader';
+import { findRecordByKey, findRecordsByField, findRecordsByKeys } from '@/lib/sde-loader';
 import type {
   SolarSystem,
   Region,
@@ -56,22 +56,22 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
         : Promise.resolve(null),
 
       system.planetIDs && system.planetIDs.length > 0
-        ? findRecords<Planet>('mapPlanets.jsonl', (p) => p.solarSystemID === systemId)
+        ? findRecordsByField<Planet>('mapPlanets.jsonl', 'solarSystemID', systemId)
         : Promise.resolve([]),
 
       system.planetIDs && system.planetIDs.length > 0
-        ? findRecords<Moon>('mapMoons.jsonl', (m) => m.solarSystemID === systemId)
+        ? findRecordsByField<Moon>('mapMoons.jsonl', 'solarSystemID', systemId)
         : Promise.resolve([]),
 
       system.planetIDs && system.planetIDs.length > 0
-        ? findRecords<AsteroidBelt>('mapAsteroidBelts.jsonl', (ab) => ab.solarSystemID === systemId)
+        ? findRecordsByField<AsteroidBelt>('mapAsteroidBelts.jsonl', 'solarSystemID', systemId)
         : Promise.resolve([]),
 
       system.stargateIDs && system.stargateIDs.length > 0
-        ? findRecords<Stargate>('mapStargates.jsonl', (sg) => sg.solarSystemID === systemId)
+        ? findRecordsByField<Stargate>('mapStargates.jsonl', 'solarSystemID', systemId)
         : Promise.resolve([]),
 
-      findRecords<Station>('npcStations.jsonl', (s) => s.solarSystemID === systemId),
+      findRecordsByField<Station>('npcStations.jsonl', 'solarSystemID', systemId),
     ]);
 
     const allTypeIDs = new Set<number>();
@@ -80,34 +80,35 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
     asteroidBelts.forEach((ab) => allTypeIDs.add(ab.typeID));
     stations.forEach((s) => allTypeIDs.add(s.typeID));
 
-    const [types, corporations, operations, services] = await Promise.all([
-      findRecords<{ _key: number; name: { en: string } }>('types.jsonl', (t) =>
-        allTypeIDs.has(t._key)
-      ),
+    const [types, corporations, operations] = await Promise.all([
+      findRecordsByKeys<{ _key: number; name: { en: string } }>('types.jsonl', allTypeIDs),
 
       stations.length > 0
-        ? findRecords<{ _key: number; name: { en: string } }>('npcCorporations.jsonl', (c) =>
-            stations.some((s) => s.ownerID === c._key)
+        ? findRecordsByKeys<{ _key: number; name: { en: string } }>(
+            'npcCorporations.jsonl',
+            stations.flatMap((s) => (s.ownerID ? [s.ownerID] : []))
           )
         : Promise.resolve([]),
 
       stations.length > 0
-        ? findRecords<{
+        ? findRecordsByKeys<{
             _key: number;
             operationName: { en: string };
             services?: number[];
-          }>('stationOperations.jsonl', (op) =>
-            stations.some((s) => s.useOperationName && s.operationID === op._key)
+          }>(
+            'stationOperations.jsonl',
+            stations.flatMap((s) => (s.useOperationName && s.operationID ? [s.operationID] : []))
           )
         : Promise.resolve([]),
+    ]);
 
-      stations.length > 0
-        ? findRecords<{ _key: number; serviceName: { en: string } }>(
+    const services =
+      operations.length > 0
+        ? await findRecordsByKeys<{ _key: number; serviceName: { en: string } }>(
             'stationServices.jsonl',
-            () => true
+            operations.flatMap((op) => op.services ?? [])
           )
-        : Promise.resolve([]),
-    ]);
+        : [];
 
     const typeMap = new Map(types.map((t) => [t._key, t]));
     const corporationMap = new Map(corporations.map((c) => [c._key, c]));
@@ -216,9 +217,7 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
     );
     const destinationSystems =
       destinationSystemIDs.size > 0
-        ? await findRecords<SolarSystem>('mapSolarSystems.jsonl', (sys) =>
-            destinationSystemIDs.has(sys._key)
-          )
+        ? await findRecordsByKeys<SolarSystem>('mapSolarSystems.jsonl', destinationSystemIDs)
         : [];
     const destSystemMap = new Map(destinationSystems.map((sys) => [sys._key, sys]));
 
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getGateNetwork } from '@/lib/gate-network';
+import type { SolarSystem, SolarSystemListResponse } from '@/lib/sde-types';
+
+let cachedList: SolarSystemListResponse | null = null;
+
+/**
+ * Every solar system in New Eden regardless of the loaded space, trimmed to what pickers and
+ * off-map link endpoints need
+ */
+export async function GET() {
+  try {
+    if (!cachedList) {
+      const network = await getGateNetwork();
+      const systems: SolarSystem[] = [];
+      for (const system of network.systems.values()) {
+        systems.push({
+          _key: system._key,
+          name: system.name,
+          constellationID: system.constellationID,
+          regionID: system.regionID,
+          position: system.position,
+          securityStatus: system.securityStatus,
+          wormholeClassID: system.wormholeClassID,
+        });
+      }
+      cachedList = { systems };
+    }
+
+    return NextResponse.json(cachedList, {
+      headers: {
+        'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error loading system list:', error);
+    return NextResponse.json({ error: 'Failed to load system list' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getSDEMetadata } from '@/lib/sde-loader';
+
+export async function GET() {
+  try {
+    const metadata = await getSDEMetadata();
+
+    return NextResponse.json(metadata, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error loading SDE metadata:', error);
+    return NextResponse.json({ error: 'Failed to load SDE metadata' }, { status: 500 });
+  }
+}
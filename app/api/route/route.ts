@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGateNetwork, resolveSystem } from '@/lib/gate-network';
+import { findRouteThrough, optimizeWaypointOrder, type RoutePreference } from '@/lib/route-planner';
+import type { RouteResponse, SolarSystem } from '@/lib/sde-types';
+
+const ROUTE_PREFERENCES: RoutePreference[] = ['shortest', 'secure', 'insecure'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const originParam = searchParams.get('origin');
+    const destinationParam = searchParams.get('destination');
+    const waypointsParam = searchParams.get('waypoints');
+    const preference = (searchParams.get('preference') || 'shortest') as RoutePreference;
+    const optimize = searchParams.get('optimize') === 'true';
+
+    if (!originParam || !destinationParam) {
+      return NextResponse.json(
+        { error: 'Both origin and destination are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ROUTE_PREFERENCES.includes(preference)) {
+      return NextResponse.json(
+        { error: `Invalid preference, expected one of: ${ROUTE_PREFERENCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const network = await getGateNetwork();
+
+    const stopParams = [
+      originParam,
+      ...(waypointsParam ? waypointsParam.split(',').filter((w) => w.trim()) : []),
+      destinationParam,
+    ];
+
+    const stops: SolarSystem[] = [];
+    for (const param of stopParams) {
+      const system = resolveSystem(network, param);
+      if (!system) {
+        return NextResponse.json({ error: `System not found: ${param}` }, { status: 404 });
+      }
+      stops.push(system);
+    }
+
+    const stopIds = optimize
+      ? optimizeWaypointOrder(
+          network.graph,
+          network.systems,
+          stops[0]._key,
+          stops.slice(1, -1).map((s) => s._key),
+          stops[stops.length - 1]._key,
+          { preference }
+        )
+      : stops.map((s) => s._key);
+
+    const systemIds = stopIds
+      ? findRouteThrough(network.graph, network.systems, stopIds, { preference })
+      : null;
+
+    if (!stopIds || !systemIds) {
+      return NextResponse.json({ error: 'No gate route found' }, { status: 404 });
+    }
+
+    const response: RouteResponse = {
+      origin: stopIds[0],
+      destination: stopIds[stopIds.length - 1],
+      waypoints: stopIds.slice(1, -1),
+      preference,
+      jumps: systemIds.length - 1,
+      route: systemIds.map((systemId) => {
+        const system = network.systems.get(systemId)!;
+        return {
+          systemId,
+          name: system.name.en,
+          securityStatus: system.securityStatus,
+          regionId: system.regionID,
+          regionName: network.regions.get(system.regionID)?.name.en || 'Unknown',
+        };
+      }),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error calculating route:', error);
+    return NextResponse.json({ error: 'Failed to calculate route' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { diffSDE, formatSDEDiffMarkdown, resolveSDERelease, type SDESource } from '@/lib/sde-diff';
+import type { SDEDiffResponse } from '@/lib/sde-types';
+
+const CACHE_DURATION = 60 * 60 * 1000;
+
+const cachedDiffs = new Map<string, { data: SDEDiffResponse; timestamp: number }>();
+
+function getSource(name: string | null): SDESource | null {
+  if (!name || name === 'current') {
+    return { label: 'current' };
+  }
+
+  const directory = resolveSDERelease(name);
+  return directory ? { label: name, directory } : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const fromParam = searchParams.get('from');
+    const format = searchParams.get('format') || 'json';
+
+    if (!fromParam) {
+      return NextResponse.json({ error: 'from is required' }, { status: 400 });
+    }
+
+    if (format !== 'json' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: 'Invalid format, expected one of: json, markdown' },
+        { status: 400 }
+      );
+    }
+
+    const from = getSource(fromParam);
+    const to = getSource(searchParams.get('to'));
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Invalid SDE release name' }, { status: 400 });
+    }
+
+    const cacheKey = `${from.label}:${to.label}`;
+    const now = Date.now();
+    let cached = cachedDiffs.get(cacheKey);
+
+    if (!cached || now - cached.timestamp >= CACHE_DURATION) {
+      try {
+        cached = { data: await diffSDE(from, to), timestamp: now };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return NextResponse.json({ error: 'SDE release not found' }, { status: 404 });
+        }
+        throw error;
+      }
+      cachedDiffs.set(cacheKey, cached);
+    }
+
+    if (format === 'markdown') {
+      return new NextResponse(formatSDEDiffMarkdown(cached.data), {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    }
+
+    return NextResponse.json(cached.data);
+  } catch (error) {
+    console.error('Error diffing SDE releases:', error);
+    return NextResponse.json({ error: 'Failed to diff SDE releases' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { ESIAgent } from '@/lib/esi-agent';
+import type { SovereigntyCampaign } from '@/lib/sovereignty';
+import { getStaleDataHeaders } from '@/lib/stale-data';
+
+let cachedData: {
+  data: SovereigntyCampaign[];
+  expiresAt: number;
+} | null = null;
+
+export async function GET() {
+  try {
+    if (cachedData && Date.now() < cachedData.expiresAt) {
+      return NextResponse.json(cachedData.data);
+    }
+
+    const { data: campaigns, expiresAt } = await ESIAgent.getSovereigntyCampaigns();
+
+    const defenderIds = Array.from(
+      new Set(campaigns.flatMap((campaign) => campaign.defender_id ?? []))
+    );
+
+    const defenderNameMap: Record<number, string> = {};
+    if (defenderIds.length > 0) {
+      const { data: defenderNames } = await ESIAgent.getNames(defenderIds);
+      for (const defender of defenderNames) {
+        defenderNameMap[defender.id] = defender.name;
+      }
+    }
+
+    const result: SovereigntyCampaign[] = campaigns.map((campaign) => ({
+      campaign_id: campaign.campaign_id,
+      solar_system_id: campaign.solar_system_id,
+      event_type: campaign.event_type,
+      defender_id: campaign.defender_id ?? null,
+      defender_name: campaign.defender_id
+        ? defenderNameMap[campaign.defender_id] || `Alliance ${campaign.defender_id}`
+        : null,
+      attackers_score: campaign.attackers_score ?? null,
+      start_time: campaign.start_time,
+    }));
+
+    cachedData = {
+      data: result,
+      expiresAt,
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching sovereignty campaigns:', error);
+    if (cachedData) {
+      return NextResponse.json(cachedData.data, { headers: getStaleDataHeaders() });
+    }
+    return NextResponse.json({ error: 'Failed to load sovereignty campaigns' }, { status: 500 });
+  }
+}
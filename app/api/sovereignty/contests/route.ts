@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { ESIAgent } from '@/lib/esi-agent';
+import {
+  classifyFactionWarfareTiers,
+  type FactionWarfareSystemStatus,
+} from '@/lib/faction-warfare';
+import { getGateNetwork } from '@/lib/gate-network';
+import { getStaleDataHeaders } from '@/lib/stale-data';
+
+/**
+ * How soon to try again for tiers when the gate network failed to load
+ */
+const TIER_RETRY_DELAY = 60 * 1000;
+
+let cachedData: {
+  data: Record<number, FactionWarfareSystemStatus>;
+  expiresAt: number;
+} | null = null;
+
+export async function GET() {
+  try {
+    if (cachedData && Date.now() < cachedData.expiresAt) {
+      return NextResponse.json(cachedData.data);
+    }
+
+    const [{ data: fwSystems, expiresAt }, network] = await Promise.all([
+      ESIAgent.getFactionWarfareSystems(),
+      // Tiers are extra: without the gate graph the contest data is still worth serving
+      getGateNetwork().catch((error) => {
+        console.error('Error loading gate network for FW tiers:', error);
+        return null;
+      }),
+    ]);
+
+    const occupiers = new Map<number, number>();
+    for (const system of fwSystems) {
+      occupiers.set(system.solar_system_id, system.occupier_faction_id);
+    }
+
+    const tiers = network ? classifyFactionWarfareTiers(occupiers, network.graph) : {};
+
+    const result: Record<number, FactionWarfareSystemStatus> = {};
+    for (const system of fwSystems) {
+      result[system.solar_system_id] = {
+        contested: system.contested,
+        occupier_faction_id: system.occupier_faction_id,
+        victory_points: system.victory_points,
+        victory_points_threshold: system.victory_points_threshold,
+        tier: tiers[system.solar_system_id],
+      };
+    }
+
+    cachedData = {
+      data: result,
+      expiresAt: network ? expiresAt : Math.min(expiresAt, Date.now() + TIER_RETRY_DELAY),
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching FW contest data:', error);
+    if (cachedData) {
+      return NextResponse.json(cachedData.data, { headers: getStaleDataHeaders() });
+    }
+    return NextResponse.json({ error: 'Failed to load FW contest data' }, { status: 500 });
+  }
+}
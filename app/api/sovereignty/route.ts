@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { ESIAgent } from '@/lib/esi-agent';
 import { findRecords } from '@/lib/sde-loader';
+import { getStaleDataHeaders } from '@/lib/stale-data';
 
 interface Faction {
   _key: number;
@@ -10,16 +11,15 @@ interface Faction {
   [key: string]: unknown;
 }
 
-let cachedData: { data: Map<number, number>; timestamp: number } | null = null;
-const CACHE_DURATION = 30 * 60 * 1000;
+let cachedData: { data: Map<number, number>; expiresAt: number } | null = null;
 
 export async function GET() {
   try {
-    if (cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
+    if (cachedData && Date.now() < cachedData.expiresAt) {
       return NextResponse.json(Object.fromEntries(cachedData.data));
     }
 
-    const fwSystems = await ESIAgent.getFactionWarfareSystems();
+    const { data: fwSystems, expiresAt } = await ESIAgent.getFactionWarfareSystems();
 
     const systemFactionMap = new Map<number, number>();
 
@@ -29,12 +29,17 @@ export async function GET() {
 
     cachedData = {
       data: systemFactionMap,
-      timestamp: Date.now(),
+      expiresAt,
     };
 
     return NextResponse.json(Object.fromEntries(systemFactionMap));
   } catch (error) {
     console.error('Error fetching FW data:', error);
+    if (cachedData) {
+      return NextResponse.json(Object.fromEntries(cachedData.data), {
+        headers: getStaleDataHeaders(),
+      });
+    }
     return NextResponse.json({ error: 'Failed to load FW data' }, { status: 500 });
   }
 }
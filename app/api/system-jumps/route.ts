@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ESIAgent } from '@/lib/esi-agent';
+import { getStaleDataHeaders } from '@/lib/stale-data';
+
+let cachedData: { data: Record<number, number>; expiresAt: number } | null = null;
+
+export async function GET() {
+  try {
+    if (cachedData && Date.now() < cachedData.expiresAt) {
+      return NextResponse.json(cachedData.data);
+    }
+
+    const { data: systemJumps, expiresAt } = await ESIAgent.getSystemJumps();
+
+    const result: Record<number, number> = {};
+    for (const entry of systemJumps) {
+      result[entry.system_id] = entry.ship_jumps;
+    }
+
+    cachedData = {
+      data: result,
+      expiresAt,
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching system jumps data:', error);
+    if (cachedData) {
+      return NextResponse.json(cachedData.data, { headers: getStaleDataHeaders() });
+    }
+    return NextResponse.json({ error: 'Failed to load system jumps data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { ESIAgent } from '@/lib/esi-agent';
+import { getStaleDataHeaders } from '@/lib/stale-data';
+
+let cachedData: {
+  data: Record<number, { ship_kills: number; pod_kills: number; npc_kills: number }>;
+  expiresAt: number;
+} | null = null;
+
+export async function GET() {
+  try {
+    if (cachedData && Date.now() < cachedData.expiresAt) {
+      return NextResponse.json(cachedData.data);
+    }
+
+    const { data: systemKills, expiresAt } = await ESIAgent.getSystemKills();
+
+    const result: Record<number, { ship_kills: number; pod_kills: number; npc_kills: number }> = {};
+    for (const entry of systemKills) {
+      result[entry.system_id] = {
+        ship_kills: entry.ship_kills,
+        pod_kills: entry.pod_kills,
+        npc_kills: entry.npc_kills,
+      };
+    }
+
+    cachedData = {
+      data: result,
+      expiresAt,
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching system kills data:', error);
+    if (cachedData) {
+      return NextResponse.json(cachedData.data, { headers: getStaleDataHeaders() });
+    }
+    return NextResponse.json({ error: 'Failed to load system kills data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getGateNetwork } from '@/lib/gate-network';
+import { getPublicWormholeAdapter } from '@/lib/public-wormholes';
+import { isWormholeLinkExpired } from '@/lib/wormhole-chain';
+import type { PublicWormholeResponse, SolarSystem } from '@/lib/sde-types';
+
+let cachedData: { data: PublicWormholeResponse; timestamp: number } | null = null;
+const CACHE_DURATION = 5 * 60 * 1000;
+
+export async function GET() {
+  try {
+    if (cachedData && Date.now() - cachedData.timestamp < CACHE_DURATION) {
+      const now = Date.now();
+      return NextResponse.json({
+        ...cachedData.data,
+        connections: cachedData.data.connections.filter(
+          (connection) => !isWormholeLinkExpired(connection, now)
+        ),
+      });
+    }
+
+    const adapter = getPublicWormholeAdapter();
+    const [connections, network] = await Promise.all([
+      adapter.fetchConnections(),
+      getGateNetwork(),
+    ]);
+
+    const now = Date.now();
+    const liveConnections = connections.filter(
+      (connection) =>
+        !isWormholeLinkExpired(connection, now) &&
+        network.systems.has(connection.hubSystemId) &&
+        network.systems.has(connection.systemId)
+    );
+
+    const systems = new Map<number, SolarSystem>();
+    for (const connection of liveConnections) {
+      systems.set(connection.hubSystemId, network.systems.get(connection.hubSystemId)!);
+      systems.set(connection.systemId, network.systems.get(connection.systemId)!);
+    }
+
+    const result: PublicWormholeResponse = {
+      source: adapter.id,
+      connections: liveConnections,
+      systems: Array.from(systems.values()),
+    };
+
+    cachedData = {
+      data: result,
+      timestamp: now,
+    };
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching public wormhole data:', error);
+    return NextResponse.json({ error: 'Failed to load public wormhole data' }, { status: 500 });
+  }
+}
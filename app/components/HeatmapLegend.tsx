@@ -0,0 +1,47 @@
+'use client';
+
+import { HEATMAP_EMPTY_COLOR, getHeatmapColorAt, getHeatmapTicks } from '@/lib/heatmap';
+
+interface HeatmapLegendProps {
+  title: string;
+  max: number;
+}
+
+const GRADIENT_STOPS = [0, 0.25, 0.5, 0.75, 1];
+
+export default function HeatmapLegend({ title, max }: HeatmapLegendProps) {
+  const gradient = `linear-gradient(to right, ${GRADIENT_STOPS.map(
+    (stop) => `${getHeatmapColorAt(stop)} ${stop * 100}%`
+  ).join(', ')})`;
+  const ticks = getHeatmapTicks(max);
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-gray-300 text-xs mb-1">
+        <span>{title}</span>
+        <span className="text-gray-500">log scale</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <span
+          className="w-3 h-3 rounded-sm flex-shrink-0"
+          style={{ backgroundColor: HEATMAP_EMPTY_COLOR }}
+          title="None"
+        />
+        <div className="flex-1">
+          <div className="h-2 rounded" style={{ background: gradient }} />
+          <div className="relative h-4 text-gray-400 text-xs">
+            {ticks.map((tick) => (
+              <span
+                key={tick.value}
+                className="absolute -translate-x-1/2"
+                style={{ left: `${tick.position * 100}%` }}
+              >
+                {tick.value.toLocaleString()}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
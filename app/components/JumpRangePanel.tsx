@@ -0,0 +1,218 @@
+'use client';
+
+import { useState } from 'react';
+import type { SolarSystem } from '@/lib/sde-types';
+import { JUMP_SHIP_CLASSES, type JumpFatigueStep, type JumpHop } from '@/lib/jump-range';
+import SystemPicker from './SystemPicker';
+
+interface JumpRangePanelProps {
+  systems: SolarSystem[];
+  origin: SolarSystem | null;
+  destination: SolarSystem | null;
+  shipClassId: string;
+  customRange: number;
+  jdcLevel: number;
+  range: number;
+  reachable: Array<{ system: SolarSystem; distance: number }>;
+  jumpRoute: JumpHop<SolarSystem>[] | null;
+  fatigue: JumpFatigueStep[];
+  onOriginChange: (systemId: number | null) => void;
+  onDestinationChange: (systemId: number | null) => void;
+  onShipClassChange: (shipClassId: string) => void;
+  onCustomRangeChange: (range: number) => void;
+  onJdcLevelChange: (level: number) => void;
+  onSystemFocus: (systemId: number) => void;
+  getSecurityColor: (security: number) => string;
+  systemSecurityRound: (security: number) => number;
+}
+
+function formatMinutes(minutes: number): string {
+  const totalSeconds = Math.round(minutes * 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return secs > 0 ? `${mins}m ${secs}s` : `${mins}m`;
+}
+
+export default function JumpRangePanel({
+  systems,
+  origin,
+  destination,
+  shipClassId,
+  customRange,
+  jdcLevel,
+  range,
+  reachable,
+  jumpRoute,
+  fatigue,
+  onOriginChange,
+  onDestinationChange,
+  onShipClassChange,
+  onCustomRangeChange,
+  onJdcLevelChange,
+  onSystemFocus,
+  getSecurityColor,
+  systemSecurityRound,
+}: JumpRangePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-gray-300 text-sm font-medium"
+      >
+        <span>Jump Range</span>
+        <span className="text-gray-500">{expanded ? '−' : '+'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <SystemPicker
+            label="From"
+            systems={systems}
+            selected={origin}
+            onSelect={onOriginChange}
+          />
+          <SystemPicker
+            label="To (optional)"
+            systems={systems}
+            selected={destination}
+            onSelect={onDestinationChange}
+          />
+
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Ship class</label>
+            <select
+              value={shipClassId}
+              onChange={(e) => onShipClassChange(e.target.value)}
+              className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              {JUMP_SHIP_CLASSES.map((shipClass) => (
+                <option key={shipClass.id} value={shipClass.id}>
+                  {shipClass.name} ({shipClass.baseRange.toFixed(1)} LY base)
+                </option>
+              ))}
+              <option value="custom">Custom range</option>
+            </select>
+          </div>
+
+          {shipClassId === 'custom' && (
+            <div>
+              <label className="block text-gray-400 text-xs mb-1">Base range (LY)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.1}
+                value={customRange}
+                onChange={(e) => onCustomRangeChange(Math.max(0, Number(e.target.value) || 0))}
+                className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Jump Drive Calibration</label>
+            <div className="flex gap-1">
+              {[0, 1, 2, 3, 4, 5].map((level) => (
+                <button
+                  key={level}
+                  onClick={() => onJdcLevelChange(level)}
+                  className={`flex-1 py-1 text-sm rounded transition-colors ${
+                    jdcLevel === level
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="text-gray-400 text-xs">Max range: {range.toFixed(2)} LY</div>
+
+          {origin && destination && !jumpRoute && (
+            <div className="text-red-400 text-sm">
+              No jump route in range (destinations cannot be high-sec)
+            </div>
+          )}
+
+          {origin && destination && jumpRoute && (
+            <div>
+              <div className="text-white text-sm font-semibold mb-2">
+                {jumpRoute.length} {jumpRoute.length === 1 ? 'jump' : 'jumps'},{' '}
+                {jumpRoute.reduce((sum, hop) => sum + hop.distance, 0).toFixed(2)} LY
+              </div>
+              <ol className="max-h-72 overflow-y-auto space-y-1">
+                {jumpRoute.map((hop, index) => (
+                  <li key={index}>
+                    <button
+                      onClick={() => onSystemFocus(hop.to._key)}
+                      className="w-full px-2 py-1 rounded text-left text-sm hover:bg-gray-800 transition-colors"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 text-xs w-4 text-right">{index + 1}</span>
+                        <span
+                          className="text-xs w-8"
+                          style={{ color: getSecurityColor(hop.to.securityStatus) }}
+                        >
+                          {systemSecurityRound(hop.to.securityStatus).toFixed(1)}
+                        </span>
+                        <span className="text-white flex-1">{hop.to.name.en}</span>
+                        <span className="text-gray-500 text-xs">{hop.distance.toFixed(2)} LY</span>
+                      </div>
+                      {fatigue[index] && (
+                        <div className="text-xs text-gray-400 pl-14">
+                          Fatigue {formatMinutes(fatigue[index].fatigueMinutes)} · Reactivation{' '}
+                          {formatMinutes(fatigue[index].reactivationMinutes)}
+                        </div>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+              {fatigue.length > 0 && (
+                <div className="text-gray-400 text-xs mt-2">
+                  Estimated travel time:{' '}
+                  {formatMinutes(fatigue.reduce((sum, step) => sum + step.waitMinutes, 0))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {origin && !destination && (
+            <div>
+              <div className="text-white text-sm font-semibold mb-2">
+                {reachable.length} {reachable.length === 1 ? 'system' : 'systems'} in range
+              </div>
+              <ol className="max-h-72 overflow-y-auto space-y-0.5">
+                {reachable.map(({ system, distance }) => (
+                  <li key={system._key}>
+                    <button
+                      onClick={() => onSystemFocus(system._key)}
+                      className="w-full flex items-center gap-2 px-2 py-0.5 rounded text-left text-sm hover:bg-gray-800 transition-colors"
+                    >
+                      <span
+                        className="text-xs w-8"
+                        style={{ color: getSecurityColor(system.securityStatus) }}
+                      >
+                        {systemSecurityRound(system.securityStatus).toFixed(1)}
+                      </span>
+                      <span className="text-white flex-1">{system.name.en}</span>
+                      <span className="text-gray-500 text-xs">{distance.toFixed(2)} LY</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import type { PublicWormholeConnection, SolarSystem } from '@/lib/sde-types';
+import { formatWormholeTimeLeft, getWormholeLinkTimeLeft } from '@/lib/wormhole-chain';
+
+interface PublicWormholePanelProps {
+  connections: Array<PublicWormholeConnection & { hub: SolarSystem; system: SolarSystem }>;
+  source: string | null;
+  error: boolean;
+  now: number;
+  visible: boolean;
+  useInRoutes: boolean;
+  onVisibleChange: (visible: boolean) => void;
+  onUseInRoutesChange: (useInRoutes: boolean) => void;
+  onSystemFocus: (systemId: number) => void;
+}
+
+export default function PublicWormholePanel({
+  connections,
+  source,
+  error,
+  now,
+  visible,
+  useInRoutes,
+  onVisibleChange,
+  onUseInRoutesChange,
+  onSystemFocus,
+}: PublicWormholePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const hubs = Array.from(
+    new Map(connections.map((connection) => [connection.hubSystemId, connection.hub])).values()
+  ).sort((a, b) => a.name.en.localeCompare(b.name.en));
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-gray-300 text-sm font-medium"
+      >
+        <span>
+          Thera / Turnur
+          {visible && connections.length > 0 && (
+            <span className="text-gray-500"> ({connections.length})</span>
+          )}
+        </span>
+        <span className="text-gray-500">{expanded ? '−' : '+'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <label className="flex items-center gap-2 text-gray-400 text-xs">
+            <input
+              type="checkbox"
+              checked={visible}
+              onChange={(e) => onVisibleChange(e.target.checked)}
+            />
+            Show public connections
+          </label>
+          <label className="flex items-center gap-2 text-gray-400 text-xs">
+            <input
+              type="checkbox"
+              checked={useInRoutes}
+              disabled={!visible}
+              onChange={(e) => onUseInRoutesChange(e.target.checked)}
+            />
+            Use connections in gate routes
+          </label>
+
+          {visible && error && (
+            <div className="text-red-400 text-xs">Failed to load public connections</div>
+          )}
+
+          {visible &&
+            hubs.map((hub) => (
+              <div key={hub._key}>
+                <button
+                  onClick={() => onSystemFocus(hub._key)}
+                  className="text-white text-sm font-medium hover:text-blue-400"
+                >
+                  {hub.name.en}
+                </button>
+                <ol className="max-h-60 overflow-y-auto space-y-1 mt-1">
+                  {connections
+                    .filter((connection) => connection.hubSystemId === hub._key)
+                    .map((connection) => {
+                      const timeLeft = getWormholeLinkTimeLeft(connection, now);
+                      return (
+                        <li key={connection.id} className="text-sm">
+                          <button
+                            onClick={() => onSystemFocus(connection.systemId)}
+                            className="text-white hover:text-blue-400"
+                          >
+                            {connection.system.name.en}
+                          </button>
+                          <div className="text-xs text-gray-400">
+                            {[
+                              connection.type,
+                              connection.maxShipSize,
+                              timeLeft !== null ? `${formatWormholeTimeLeft(timeLeft)} left` : null,
+                            ]
+                              .filter(Boolean)
+                              .join(' · ')}
+                          </div>
+                        </li>
+                      );
+                    })}
+                </ol>
+              </div>
+            ))}
+
+          {visible && source && (
+            <div className="text-gray-500 text-xs">
+              Source: {source === 'eve-scout' ? 'EVE-Scout' : source}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Region, SolarSystem } from '@/lib/sde-types';
+import type { RoutePreference } from '@/lib/route-planner';
+import SystemPicker from './SystemPicker';
+
+export interface AvoidEntry {
+  type: 'system' | 'region';
+  id: number;
+}
+
+/**
+ * Avoid list from localStorage, dropping anything that is not a system or region entry
+ */
+export function parseAvoidList(value: unknown): AvoidEntry[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(
+    (entry): entry is AvoidEntry =>
+      !!entry && (entry.type === 'system' || entry.type === 'region') && Number.isInteger(entry.id)
+  );
+}
+
+interface AvoidPickerProps {
+  systems: SolarSystem[];
+  regions: Region[];
+  onAdd: (entry: AvoidEntry) => void;
+}
+
+function AvoidPicker({ systems, regions, onAdd }: AvoidPickerProps) {
+  const [query, setQuery] = useState('');
+  const [showAutocomplete, setShowAutocomplete] = useState(false);
+
+  const results = useMemo(() => {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return [];
+
+    const matches: Array<AvoidEntry & { name: string }> = [];
+    for (const system of systems) {
+      if (system.name.en.toLowerCase().includes(lowerQuery)) {
+        matches.push({ type: 'system', id: system._key, name: system.name.en });
+        if (matches.length >= 8) break;
+      }
+    }
+
+    if (matches.length < 8) {
+      for (const region of regions) {
+        if (region.name.en.toLowerCase().includes(lowerQuery)) {
+          matches.push({ type: 'region', id: region._key, name: region.name.en });
+          if (matches.length >= 8) break;
+        }
+      }
+    }
+    return matches;
+  }, [query, systems, regions]);
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setShowAutocomplete(true);
+        }}
+        onBlur={() => {
+          setTimeout(() => setShowAutocomplete(false), 200);
+        }}
+        placeholder="Add system or region to avoid..."
+        className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+      />
+
+      {showAutocomplete && results.length > 0 && (
+        <div className="absolute top-full mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg shadow-lg max-h-64 overflow-y-auto z-10">
+          {results.map((result) => (
+            <button
+              key={`${result.type}-${result.id}`}
+              onClick={() => {
+                onAdd({ type: result.type, id: result.id });
+                setQuery('');
+                setShowAutocomplete(false);
+              }}
+              className="w-full px-3 py-1.5 text-left hover:bg-gray-800 transition-colors flex items-center justify-between"
+            >
+              <span className="text-white text-sm">{result.name}</span>
+              <span
+                className={`text-xs px-2 py-0.5 rounded ${
+                  result.type === 'system'
+                    ? 'bg-blue-900 text-blue-300'
+                    : 'bg-purple-900 text-purple-300'
+                }`}
+              >
+                {result.type}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ROUTE_PREFERENCES: Array<{ value: RoutePreference; label: string }> = [
+  { value: 'shortest', label: 'Shortest' },
+  { value: 'secure', label: 'Safer' },
+  { value: 'insecure', label: 'Less Secure' },
+];
+
+interface RoutePanelProps {
+  systems: SolarSystem[];
+  regions: Region[];
+  origin: SolarSystem | null;
+  destination: SolarSystem | null;
+  waypoints: SolarSystem[];
+  optimizeWaypoints: boolean;
+  route: { systems: SolarSystem[]; stops: SolarSystem[] } | null;
+  preference: RoutePreference;
+  avoidList: Array<AvoidEntry & { name: string }>;
+  onOriginChange: (systemId: number | null) => void;
+  onDestinationChange: (systemId: number | null) => void;
+  onWaypointsChange: (systemIds: number[]) => void;
+  onOptimizeWaypointsChange: (optimize: boolean) => void;
+  onPreferenceChange: (preference: RoutePreference) => void;
+  onAvoidAdd: (entry: AvoidEntry) => void;
+  onAvoidRemove: (entry: AvoidEntry) => void;
+  onSystemFocus: (systemId: number) => void;
+  getSecurityColor: (security: number) => string;
+  systemSecurityRound: (security: number) => number;
+}
+
+export default function RoutePanel({
+  systems,
+  regions,
+  origin,
+  destination,
+  waypoints,
+  optimizeWaypoints,
+  route,
+  preference,
+  avoidList,
+  onOriginChange,
+  onDestinationChange,
+  onWaypointsChange,
+  onOptimizeWaypointsChange,
+  onPreferenceChange,
+  onAvoidAdd,
+  onAvoidRemove,
+  onSystemFocus,
+  getSecurityColor,
+  systemSecurityRound,
+}: RoutePanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const waypointNumbers = useMemo(() => {
+    const numbers = new Map<number, number>();
+    if (!route) return numbers;
+
+    const waypointStops = route.stops.slice(1, destination ? -1 : undefined);
+    waypointStops.forEach((system, index) => numbers.set(system._key, index + 1));
+    return numbers;
+  }, [route, destination]);
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-gray-300 text-sm font-medium"
+      >
+        <span>Route Planner</span>
+        <span className="text-gray-500">{expanded ? '−' : '+'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <SystemPicker
+            label="Origin"
+            systems={systems}
+            selected={origin}
+            onSelect={onOriginChange}
+          />
+          <SystemPicker
+            label="Destination"
+            systems={systems}
+            selected={destination}
+            onSelect={onDestinationChange}
+          />
+
+          <div>
+            <SystemPicker
+              label="Waypoints"
+              systems={systems}
+              selected={null}
+              onSelect={(systemId) => {
+                if (systemId !== null && !waypoints.some((w) => w._key === systemId)) {
+                  onWaypointsChange([...waypoints.map((w) => w._key), systemId]);
+                }
+              }}
+            />
+            {waypoints.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {waypoints.map((waypoint) => (
+                    <button
+                      key={waypoint._key}
+                      onClick={() =>
+                        onWaypointsChange(
+                          waypoints.filter((w) => w._key !== waypoint._key).map((w) => w._key)
+                        )
+                      }
+                      title="Remove waypoint"
+                      className="text-xs px-2 py-0.5 rounded bg-yellow-900 text-yellow-300"
+                    >
+                      {waypointNumbers.has(waypoint._key) &&
+                        `${waypointNumbers.get(waypoint._key)}. `}
+                      {waypoint.name.en} ×
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-gray-400 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={optimizeWaypoints}
+                    onChange={(e) => onOptimizeWaypointsChange(e.target.checked)}
+                  />
+                  Optimize waypoint order {destination ? '(destination fixed)' : '(open end)'}
+                </label>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onOriginChange(destination?._key ?? null);
+                onDestinationChange(origin?._key ?? null);
+              }}
+              className="px-3 py-1 text-sm rounded bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+            >
+              Swap
+            </button>
+            <button
+              onClick={() => {
+                onOriginChange(null);
+                onDestinationChange(null);
+                onWaypointsChange([]);
+              }}
+              className="px-3 py-1 text-sm rounded bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Preference</label>
+            <div className="flex gap-2">
+              {ROUTE_PREFERENCES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onPreferenceChange(option.value)}
+                  className={`px-3 py-1 text-sm rounded transition-colors ${
+                    preference === option.value
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Avoid</label>
+            <AvoidPicker systems={systems} regions={regions} onAdd={onAvoidAdd} />
+            {avoidList.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {avoidList.map((entry) => (
+                  <button
+                    key={`${entry.type}-${entry.id}`}
+                    onClick={() => onAvoidRemove(entry)}
+                    title="Remove from avoid list"
+                    className={`text-xs px-2 py-0.5 rounded ${
+                      entry.type === 'system'
+                        ? 'bg-blue-900 text-blue-300'
+                        : 'bg-purple-900 text-purple-300'
+                    }`}
+                  >
+                    {entry.name} ×
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {origin && (destination || waypoints.length > 0) && !route && (
+            <div className="text-red-400 text-sm">No gate route between these systems</div>
+          )}
+
+          {route && route.systems.length > 0 && (
+            <div>
+              <div className="text-white text-sm font-semibold mb-2">
+                {route.systems.length - 1} {route.systems.length - 1 === 1 ? 'jump' : 'jumps'}
+              </div>
+              <ol className="max-h-72 overflow-y-auto space-y-0.5">
+                {route.systems.map((system, index) => (
+                  <li key={index}>
+                    <button
+                      onClick={() => onSystemFocus(system._key)}
+                      className="w-full flex items-center gap-2 px-2 py-0.5 rounded text-left text-sm hover:bg-gray-800 transition-colors"
+                    >
+                      <span className="text-gray-500 text-xs w-6 text-right">{index}</span>
+                      <span
+                        className="text-xs w-8"
+                        style={{ color: getSecurityColor(system.securityStatus) }}
+                      >
+                        {systemSecurityRound(system.securityStatus).toFixed(1)}
+                      </span>
+                      <span className="text-white">{system.name.en}</span>
+                      {waypointNumbers.has(system._key) && (
+                        <span className="text-xs px-1.5 rounded bg-yellow-900 text-yellow-300">
+                          {waypointNumbers.get(system._key)}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
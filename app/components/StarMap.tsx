@@ -2,7 +2,114 @@
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import type { MapDataResponse } from '@/lib/sde-types';
+import type {
+  MapDataResponse,
+  PublicWormholeConnection,
+  PublicWormholeResponse,
+  SDEMetadataResponse,
+  SolarSystem,
+  SolarSystemListResponse,
+} from '@/lib/sde-types';
+import {
+  buildGateGraph,
+  findRouteThrough,
+  optimizeWaypointOrder,
+  type RoutePreference,
+} from '@/lib/route-planner';
+import {
+  JUMP_SHIP_CLASSES,
+  estimateJumpFatigue,
+  findJumpRoute,
+  findSystemsInJumpRange,
+  getJumpRange,
+} from '@/lib/jump-range';
+import {
+  ALLIANCE_VIEWS,
+  FW_VIEWS,
+  KILL_TYPES,
+  parseMapUrlState,
+  serializeMapUrlState,
+  type AllianceView,
+  type ColorMode,
+  type FactionWarfareView,
+  type KillType,
+} from '@/lib/map-url-state';
+import type { SpaceType } from '@/lib/region-space';
+import {
+  getWormholeClassGroup,
+  getWormholeClassId,
+  layoutWormholeSpace,
+  matchesJCode,
+  type WormholeGroupLabel,
+} from '@/lib/wormhole-space';
+import {
+  WORMHOLE_MASS_COLORS,
+  formatWormholeTimeLeft,
+  getWormholeLinkTimeLeft,
+  isWormholeLinkExpired,
+  parseWormholeLinks,
+  toWormholeConnections,
+  type WormholeLink,
+} from '@/lib/wormhole-chain';
+import { getHeatmapColor } from '@/lib/heatmap';
+import {
+  FW_CONTEST_OUTLINE_COLORS,
+  FW_CONTEST_STATUS_LABELS,
+  FW_TIER_LABELS,
+  FW_TIER_LIGHTNESS,
+  getContestProgress,
+  type FactionWarfareContest,
+  type FactionWarfareSystemStatus,
+  type FactionWarfareTier,
+} from '@/lib/faction-warfare';
+import {
+  MAX_ADM,
+  MIN_ADM,
+  SOV_CAMPAIGN_COLORS,
+  SOV_CAMPAIGN_EVENT_LABELS,
+  SOV_STRUCTURE_TYPE_NAMES,
+  formatCampaignCountdown,
+  formatCampaignStart,
+  formatVulnerabilityWindow,
+  getAdmLightness,
+  getVulnerabilityWindow,
+  isCampaignActive,
+  type AllianceSovereigntySystem,
+  type SovereigntyCampaign,
+  type SovereigntySystemStructures,
+} from '@/lib/sovereignty';
+import { isStaleResponse } from '@/lib/stale-data';
+import RoutePanel, { type AvoidEntry, parseAvoidList } from './RoutePanel';
+import JumpRangePanel from './JumpRangePanel';
+import WormholeChainPanel from './WormholeChainPanel';
+import PublicWormholePanel from './PublicWormholePanel';
+import HeatmapLegend from './HeatmapLegend';
+
+const AVOID_LIST_STORAGE_KEY = 'ectmap.routeAvoidList';
+const WORMHOLE_CHAIN_STORAGE_KEY = 'ectmap.wormholeChain';
+const PUBLIC_WORMHOLE_COLOR = 'hsl(170, 80%, 50%)';
+const PUBLIC_WORMHOLE_REFRESH_INTERVAL = 5 * 60 * 1000;
+const SOV_CAMPAIGN_REFRESH_INTERVAL = 60 * 1000;
+const STALE_OVERLAY_RETRY_INTERVAL = 60 * 1000;
+/** Longest wait before re-checking link expiry, below setTimeout's 24.8-day limit */
+const MAX_LINK_EXPIRY_WAIT = 24 * 60 * 60 * 1000;
+
+const FW_VIEW_LABELS: Record<FactionWarfareView, string> = {
+  ownership: 'Ownership',
+  contest: 'Contest',
+  tiers: 'Frontlines',
+};
+
+const ALLIANCE_VIEW_LABELS: Record<AllianceView, string> = {
+  ownership: 'Ownership',
+  adm: 'ADM',
+};
+
+const KILL_TYPE_LABELS: Record<KillType, string> = {
+  ship: 'Ship',
+  pod: 'Pod',
+  npc: 'NPC',
+};
 
 export default function StarMap() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -30,31 +137,93 @@ export default function StarMap() {
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [mouseDownPos, setMouseDownPos] = useState({ x: 0, y: 0 });
-  const [colorMode, setColorMode] = useState<'region' | 'security' | 'faction' | 'alliance'>(
-    'region'
-  );
+  const [colorMode, setColorMode] = useState<ColorMode>('region');
+  const [selectedSystemId, setSelectedSystemId] = useState<number | null>(null);
+  const [mapSpace, setMapSpace] = useState<SpaceType[] | null>(null);
+  const [wormholeLabels, setWormholeLabels] = useState<WormholeGroupLabel[]>([]);
+  const skipUrlCameraRef = useRef(false);
+  const [urlStateLoaded, setUrlStateLoaded] = useState(false);
   const [cameraInitialized, setCameraInitialized] = useState(false);
+  const [sdeMetadata, setSdeMetadata] = useState<SDEMetadataResponse | null>(null);
   const [sovereigntyData, setSovereigntyData] = useState<Record<number, number> | null>(null);
+  const [fwContests, setFwContests] = useState<Record<number, FactionWarfareContest>>({});
+  const [fwTiers, setFwTiers] = useState<Record<number, FactionWarfareTier>>({});
+  const [fwView, setFwView] = useState<FactionWarfareView>('ownership');
   const [allianceData, setAllianceData] = useState<Record<
     number,
     { alliance_id: number; alliance_name: string }
   > | null>(null);
+  const [sovStructures, setSovStructures] = useState<Record<number, SovereigntySystemStructures>>(
+    {}
+  );
+  const [allianceView, setAllianceView] = useState<AllianceView>('ownership');
+  const [sovCampaigns, setSovCampaigns] = useState<SovereigntyCampaign[]>([]);
+  const [sovCampaignsStale, setSovCampaignsStale] = useState(false);
+  const [showSovCampaigns, setShowSovCampaigns] = useState(true);
+  /** Ticks every second while a campaign countdown is on screen */
+  const [campaignClock, setCampaignClock] = useState(() => Date.now());
+  const [systemJumpsData, setSystemJumpsData] = useState<Record<number, number> | null>(null);
+  const [systemKillsData, setSystemKillsData] = useState<Record<
+    number,
+    { ship_kills: number; pod_kills: number; npc_kills: number }
+  > | null>(null);
+  const [killType, setKillType] = useState<KillType>('ship');
+  /** Overlays served from last-known-good data because ESI is failing */
+  const [staleColorModes, setStaleColorModes] = useState<Partial<Record<ColorMode, boolean>>>({});
 
   const [searchQuery, setSearchQuery] = useState('');
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [filteredResults, setFilteredResults] = useState<
-    Array<{ type: 'system' | 'region'; name: string; id: number }>
+    Array<{ type: 'system' | 'region'; name: string; id: number; detail?: string }>
   >([]);
   const searchDebounceRef = useRef<NodeJS.Timeout>();
 
+  const [routeOriginId, setRouteOriginId] = useState<number | null>(null);
+  const [routeDestinationId, setRouteDestinationId] = useState<number | null>(null);
+  const [routeWaypointIds, setRouteWaypointIds] = useState<number[]>([]);
+  const [optimizeWaypoints, setOptimizeWaypoints] = useState(true);
+  const [routePreference, setRoutePreference] = useState<RoutePreference>('shortest');
+  const [avoidList, setAvoidList] = useState<AvoidEntry[]>([]);
+  const [avoidListLoaded, setAvoidListLoaded] = useState(false);
+
+  const [wormholeLinks, setWormholeLinks] = useState<WormholeLink[]>([]);
+  /** Systems in every kind of space, so chain links can lead out of the loaded space */
+  const [allSystems, setAllSystems] = useState<SolarSystem[] | null>(null);
+  const [wormholeLinksLoaded, setWormholeLinksLoaded] = useState(false);
+  const [useWormholeLinksInRoutes, setUseWormholeLinksInRoutes] = useState(true);
+  const [chainClock, setChainClock] = useState(() => Date.now());
+  /** Only advances when a link expires, so the route graph isn't rebuilt on every clock tick */
+  const [linkExpiryClock, setLinkExpiryClock] = useState(() => Date.now());
+
+  const [publicWormholes, setPublicWormholes] = useState<PublicWormholeResponse | null>(null);
+  const [publicWormholesError, setPublicWormholesError] = useState(false);
+  const [showPublicWormholes, setShowPublicWormholes] = useState(true);
+  const [usePublicWormholesInRoutes, setUsePublicWormholesInRoutes] = useState(true);
+
+  const [jumpOriginId, setJumpOriginId] = useState<number | null>(null);
+  const [jumpDestinationId, setJumpDestinationId] = useState<number | null>(null);
+  const [jumpShipClassId, setJumpShipClassId] = useState(JUMP_SHIP_CLASSES[0].id);
+  const [jumpCustomRange, setJumpCustomRange] = useState(5);
+  const [jumpJdcLevel, setJumpJdcLevel] = useState(5);
+
   const [hoveredSystem, setHoveredSystem] = useState<{
     name: string;
     security: number;
     x: number;
     y: number;
     regionName?: string;
+    wormholeClass?: string;
+    publicWormholes?: string[];
     factionName?: string;
     allianceName?: string;
+    sovStructures?: string[];
+    adm?: number;
+    vulnerabilityWindow?: string;
+    campaigns?: SovereigntyCampaign[];
+    fwContest?: FactionWarfareContest;
+    fwTier?: FactionWarfareTier;
+    jumps?: number;
+    kills?: { ship: number; pod: number; npc: number };
   } | null>(null);
 
   const systemSecurityRound = useCallback((security: number) => {
@@ -105,6 +274,28 @@ export default function StarMap() {
     return factionColors[factionId] || `hsl(${(factionId * 137.508) % 360}, 70%, 60%)`;
   }, []);
 
+  /**
+   * Occupier's faction hue, brighter the closer the system is to flipping
+   */
+  const getContestColor = useCallback(
+    (contest: FactionWarfareContest) => {
+      const match = getFactionColor(contest.occupier_faction_id).match(/hsl\(([\d.]+),\s*(\d+)%/);
+      const lightness = 20 + getContestProgress(contest) * 50;
+      return match ? `hsl(${match[1]}, ${match[2]}%, ${lightness}%)` : 'hsl(0, 0%, 30%)';
+    },
+    [getFactionColor]
+  );
+
+  const getTierColor = useCallback(
+    (factionId: number, tier: FactionWarfareTier) => {
+      const match = getFactionColor(factionId).match(/hsl\(([\d.]+),\s*(\d+)%/);
+      return match
+        ? `hsl(${match[1]}, ${match[2]}%, ${FW_TIER_LIGHTNESS[tier]}%)`
+        : 'hsl(0, 0%, 30%)';
+    },
+    [getFactionColor]
+  );
+
   const getAllianceColor = useCallback((allianceId: number | undefined) => {
     if (!allianceId) {
       return 'hsl(0, 0%, 30%)';
@@ -114,16 +305,295 @@ export default function StarMap() {
     return `hsl(${hue}, 70%, 60%)`;
   }, []);
 
+  const getAllianceAdmColor = useCallback(
+    (allianceId: number, adm: number) => {
+      const match = getAllianceColor(allianceId).match(/hsl\(([\d.]+),\s*(\d+)%/);
+      return match ? `hsl(${match[1]}, ${match[2]}%, ${getAdmLightness(adm)}%)` : 'hsl(0, 0%, 30%)';
+    },
+    [getAllianceColor]
+  );
+
+  const sovCampaignsBySystem = useMemo(() => {
+    const bySystem = new Map<number, SovereigntyCampaign[]>();
+    for (const campaign of sovCampaigns) {
+      const campaigns = bySystem.get(campaign.solar_system_id) ?? [];
+      campaigns.push(campaign);
+      bySystem.set(campaign.solar_system_id, campaigns);
+    }
+    return bySystem;
+  }, [sovCampaigns]);
+
+  const maxSystemJumps = useMemo(
+    () => (systemJumpsData ? Math.max(0, ...Object.values(systemJumpsData)) : 0),
+    [systemJumpsData]
+  );
+
+  const getSystemKillCount = useCallback(
+    (systemId: number) => {
+      const kills = systemKillsData?.[systemId];
+      if (!kills) return 0;
+      return killType === 'pod'
+        ? kills.pod_kills
+        : killType === 'npc'
+          ? kills.npc_kills
+          : kills.ship_kills;
+    },
+    [systemKillsData, killType]
+  );
+
+  const maxSystemKills = useMemo(() => {
+    if (!systemKillsData) return 0;
+    return Math.max(0, ...Object.keys(systemKillsData).map((id) => getSystemKillCount(Number(id))));
+  }, [systemKillsData, getSystemKillCount]);
+
   const systemMap = useMemo(() => {
     if (!mapData) return new Map();
     return new Map(mapData.systems.map((s) => [s._key, s]));
   }, [mapData]);
 
+  const allSystemMap = useMemo(
+    () => new Map((allSystems ?? []).map((s) => [s._key, s])),
+    [allSystems]
+  );
+
   const regionMap = useMemo(() => {
     if (!mapData) return new Map();
     return new Map(mapData.regions.map((r) => [r._key, r]));
   }, [mapData]);
 
+  const wormholeClassLabels = useMemo(() => {
+    const labels = new Map<number, string>();
+    if (!mapData) return labels;
+
+    const constellations = new Map(mapData.constellations.map((c) => [c._key, c]));
+    for (const system of mapData.systems) {
+      const group = getWormholeClassGroup(getWormholeClassId(system, constellations, regionMap));
+      if (group) {
+        labels.set(system._key, group.label);
+      }
+    }
+    return labels;
+  }, [mapData, regionMap]);
+
+  const isJSpaceView = mapSpace?.length === 1 && mapSpace[0] === 'wspace';
+
+  const gateGraph = useMemo(() => {
+    if (!mapData) return new Map<number, number[]>();
+    return buildGateGraph(mapData.stargateConnections);
+  }, [mapData]);
+
+  /**
+   * Live chain links, with endpoints from the loaded map where possible
+   * A J-space chain usually leads into k-space, so the other end comes from the all-space list
+   */
+  const visibleWormholeLinks = useMemo(
+    () =>
+      wormholeLinks
+        .filter((link) => !isWormholeLinkExpired(link, linkExpiryClock))
+        .map((link) => ({
+          ...link,
+          from: (systemMap.get(link.fromId) ?? allSystemMap.get(link.fromId)) as
+            | SolarSystem
+            | undefined,
+          to: (systemMap.get(link.toId) ?? allSystemMap.get(link.toId)) as SolarSystem | undefined,
+        }))
+        .filter(
+          (link): link is WormholeLink & { from: SolarSystem; to: SolarSystem } =>
+            !!link.from && !!link.to
+        ),
+    [wormholeLinks, systemMap, allSystemMap, linkExpiryClock]
+  );
+
+  /**
+   * Live Thera/Turnur connections, with endpoints from the loaded map where possible
+   * The hubs are usually outside the loaded space, so the feed carries their SDE records too
+   */
+  const livePublicWormholes = useMemo(() => {
+    if (!showPublicWormholes || !publicWormholes) return [];
+
+    const feedSystems = new Map(publicWormholes.systems.map((s) => [s._key, s]));
+    const resolve = (id: number): SolarSystem | undefined =>
+      systemMap.get(id) ?? feedSystems.get(id);
+
+    return publicWormholes.connections
+      .filter((connection) => !isWormholeLinkExpired(connection, linkExpiryClock))
+      .map((connection) => ({
+        ...connection,
+        hub: resolve(connection.hubSystemId),
+        system: resolve(connection.systemId),
+      }))
+      .filter(
+        (
+          connection
+        ): connection is PublicWormholeConnection & { hub: SolarSystem; system: SolarSystem } =>
+          !!connection.hub && !!connection.system
+      );
+  }, [showPublicWormholes, publicWormholes, systemMap, linkExpiryClock]);
+
+  const routeSystemMap = useMemo(() => {
+    const offMapSystems = [
+      ...(useWormholeLinksInRoutes
+        ? visibleWormholeLinks.flatMap((link) => [link.from, link.to])
+        : []),
+      ...(usePublicWormholesInRoutes
+        ? livePublicWormholes.map((connection) => connection.hub)
+        : []),
+    ].filter((system) => !systemMap.has(system._key));
+
+    if (offMapSystems.length === 0) {
+      return systemMap;
+    }
+
+    const merged = new Map(systemMap);
+    for (const system of offMapSystems) {
+      merged.set(system._key, system);
+    }
+    return merged;
+  }, [
+    systemMap,
+    useWormholeLinksInRoutes,
+    visibleWormholeLinks,
+    usePublicWormholesInRoutes,
+    livePublicWormholes,
+  ]);
+
+  const routeGraph = useMemo(() => {
+    const extraConnections = [
+      ...(useWormholeLinksInRoutes ? toWormholeConnections(visibleWormholeLinks) : []),
+      ...(usePublicWormholesInRoutes
+        ? livePublicWormholes.map((connection) => ({
+            from: connection.hubSystemId,
+            to: connection.systemId,
+          }))
+        : []),
+    ];
+
+    if (!mapData || extraConnections.length === 0) {
+      return gateGraph;
+    }
+    return buildGateGraph([...mapData.stargateConnections, ...extraConnections]);
+  }, [
+    mapData,
+    gateGraph,
+    useWormholeLinksInRoutes,
+    visibleWormholeLinks,
+    usePublicWormholesInRoutes,
+    livePublicWormholes,
+  ]);
+
+  const route = useMemo(() => {
+    if (routeOriginId === null) return null;
+    if (routeDestinationId === null && routeWaypointIds.length === 0) return null;
+
+    const options = {
+      preference: routePreference,
+      avoidSystemIds: new Set(avoidList.filter((e) => e.type === 'system').map((e) => e.id)),
+      avoidRegionIds: new Set(avoidList.filter((e) => e.type === 'region').map((e) => e.id)),
+    };
+
+    const stopIds = optimizeWaypoints
+      ? optimizeWaypointOrder(
+          routeGraph,
+          routeSystemMap,
+          routeOriginId,
+          routeWaypointIds,
+          routeDestinationId,
+          options
+        )
+      : [
+          routeOriginId,
+          ...routeWaypointIds,
+          ...(routeDestinationId !== null ? [routeDestinationId] : []),
+        ];
+    if (!stopIds) return null;
+
+    const systemIds = findRouteThrough(routeGraph, routeSystemMap, stopIds, options);
+    if (!systemIds) return null;
+
+    return {
+      systems: systemIds.map((id) => routeSystemMap.get(id) as SolarSystem),
+      stops: stopIds.map((id) => routeSystemMap.get(id) as SolarSystem),
+    };
+  }, [
+    routeGraph,
+    routeSystemMap,
+    routeOriginId,
+    routeDestinationId,
+    routeWaypointIds,
+    optimizeWaypoints,
+    routePreference,
+    avoidList,
+  ]);
+
+  const jumpShipClass = useMemo(
+    () => JUMP_SHIP_CLASSES.find((c) => c.id === jumpShipClassId) ?? null,
+    [jumpShipClassId]
+  );
+
+  const jumpRange = useMemo(
+    () => getJumpRange(jumpShipClass ? jumpShipClass.baseRange : jumpCustomRange, jumpJdcLevel),
+    [jumpShipClass, jumpCustomRange, jumpJdcLevel]
+  );
+
+  const jumpRoute = useMemo(() => {
+    if (!mapData || jumpOriginId === null || jumpDestinationId === null) return null;
+
+    const origin = systemMap.get(jumpOriginId);
+    const destination = systemMap.get(jumpDestinationId);
+    if (!origin || !destination) return null;
+
+    return findJumpRoute<SolarSystem>(mapData.systems, origin, destination, jumpRange);
+  }, [mapData, systemMap, jumpOriginId, jumpDestinationId, jumpRange]);
+
+  const jumpFatigue = useMemo(() => {
+    if (!jumpRoute) return [];
+    return estimateJumpFatigue(
+      jumpRoute.map((hop) => hop.distance),
+      jumpShipClass?.fatigueReduction ?? 0
+    );
+  }, [jumpRoute, jumpShipClass]);
+
+  const jumpReachable = useMemo(() => {
+    if (!mapData || jumpOriginId === null) return [];
+
+    const origin = systemMap.get(jumpOriginId);
+    if (!origin) return [];
+
+    return findSystemsInJumpRange<SolarSystem>(mapData.systems, origin, jumpRange);
+  }, [mapData, systemMap, jumpOriginId, jumpRange]);
+
+  const namedAvoidList = useMemo(
+    () =>
+      avoidList.map((entry) => ({
+        ...entry,
+        name:
+          (entry.type === 'system' ? systemMap.get(entry.id) : regionMap.get(entry.id))?.name.en ||
+          `${entry.type === 'system' ? 'System' : 'Region'} ${entry.id}`,
+      })),
+    [avoidList, systemMap, regionMap]
+  );
+
+  const handleAvoidAdd = useCallback((entry: AvoidEntry) => {
+    setAvoidList((current) =>
+      current.some((e) => e.type === entry.type && e.id === entry.id)
+        ? current
+        : [...current, entry]
+    );
+  }, []);
+
+  const handleAvoidRemove = useCallback((entry: AvoidEntry) => {
+    setAvoidList((current) => current.filter((e) => e.type !== entry.type || e.id !== entry.id));
+  }, []);
+
+  const handleWormholeLinkAdd = useCallback((link: Omit<WormholeLink, 'id'>) => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    setWormholeLinks((current) => [...current, { ...link, id }]);
+  }, []);
+
+  const handleWormholeLinkRemove = useCallback((linkId: string) => {
+    setWormholeLinks((current) => current.filter((link) => link.id !== linkId));
+  }, []);
+
   const bounds = useMemo(() => {
     if (!mapData || mapData.systems.length === 0) {
       return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
@@ -188,14 +658,23 @@ export default function StarMap() {
 
       searchDebounceRef.current = setTimeout(() => {
         const lowerQuery = query.toLowerCase();
-        const results: Array<{ type: 'system' | 'region'; name: string; id: number }> = [];
+        const results: Array<{
+          type: 'system' | 'region';
+          name: string;
+          id: number;
+          detail?: string;
+        }> = [];
 
         for (const system of mapData.systems) {
-          if (system.name.en.toLowerCase().includes(lowerQuery)) {
+          if (
+            system.name.en.toLowerCase().includes(lowerQuery) ||
+            matchesJCode(system.name.en, query)
+          ) {
             results.push({
               type: 'system',
               name: system.name.en,
               id: system._key,
+              detail: wormholeClassLabels.get(system._key),
             });
             if (results.length >= 10) break;
           }
@@ -218,7 +697,31 @@ export default function StarMap() {
         setShowAutocomplete(results.length > 0);
       }, 300);
     },
-    [mapData]
+    [mapData, wormholeClassLabels]
+  );
+
+  const focusSystem = useCallback(
+    (systemId: number) => {
+      const system = systemMap.get(systemId);
+      if (!system) return;
+
+      const x = system.position2D?.x || system.position.x;
+      const y = system.position2D?.y || system.position.y;
+
+      const canvasX = toCanvasX(x);
+      const canvasY = toCanvasY(y);
+
+      const zoom = 8;
+      const screenCenterX = dimensions.width / 2;
+      const screenCenterY = dimensions.height / 2;
+
+      setCamera({
+        x: -(canvasX - screenCenterX) * zoom,
+        y: -(canvasY - screenCenterY) * zoom,
+        zoom: zoom,
+      });
+    },
+    [systemMap, toCanvasX, toCanvasY, dimensions]
   );
 
   const handleSelectResult = useCallback(
@@ -226,25 +729,11 @@ export default function StarMap() {
       if (!mapData) return;
 
       if (result.type === 'system') {
-        const system = systemMap.get(result.id);
-        if (system) {
-          const x = system.position2D?.x || system.position.x;
-          const y = system.position2D?.y || system.position.y;
-
-          const canvasX = toCanvasX(x);
-          const canvasY = toCanvasY(y);
-
-          const zoom = 8;
-          const screenCenterX = dimensions.width / 2;
-          const screenCenterY = dimensions.height / 2;
-
-          setCamera({
-            x: -(canvasX - screenCenterX) * zoom,
-            y: -(canvasY - screenCenterY) * zoom,
-            zoom: zoom,
-          });
-        }
+        focusSystem(result.id);
+        setSelectedSystemId(result.id);
       } else {
+        setSelectedSystemId(null);
+
         const regionSystems = mapData.systems.filter((s) => s.regionID === result.id);
         if (regionSystems.length > 0) {
           let sumX = 0,
@@ -277,7 +766,7 @@ export default function StarMap() {
       setShowAutocomplete(false);
       setFilteredResults([]);
     },
-    [mapData, systemMap, toCanvasX, toCanvasY, dimensions]
+    [mapData, focusSystem, toCanvasX, toCanvasY, dimensions]
   );
 
   useEffect(() => {
@@ -307,12 +796,186 @@ export default function StarMap() {
   }, []);
 
   useEffect(() => {
+    try {
+      const stored = localStorage.getItem(AVOID_LIST_STORAGE_KEY);
+      if (stored) {
+        setAvoidList(parseAvoidList(JSON.parse(stored)));
+      }
+    } catch (err) {
+      console.error('Error loading route avoid list:', err);
+    }
+    setAvoidListLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (avoidListLoaded) {
+      localStorage.setItem(AVOID_LIST_STORAGE_KEY, JSON.stringify(avoidList));
+    }
+  }, [avoidList, avoidListLoaded]);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(WORMHOLE_CHAIN_STORAGE_KEY);
+      if (stored) {
+        setWormholeLinks(parseWormholeLinks(JSON.parse(stored)));
+      }
+    } catch (err) {
+      console.error('Error loading wormhole chain:', err);
+    }
+    setWormholeLinksLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (wormholeLinksLoaded) {
+      localStorage.setItem(WORMHOLE_CHAIN_STORAGE_KEY, JSON.stringify(wormholeLinks));
+    }
+  }, [wormholeLinks, wormholeLinksLoaded]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setChainClock(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const expiries = [...wormholeLinks, ...(publicWormholes?.connections ?? [])]
+      .map((link) => (link.expiresAt !== null ? Date.parse(link.expiresAt) : NaN))
+      .filter((expiry) => expiry > linkExpiryClock);
+    if (expiries.length === 0) return;
+
+    const wait = Math.max(0, Math.min(Math.min(...expiries) - Date.now(), MAX_LINK_EXPIRY_WAIT));
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setLinkExpiryClock(now);
+      setWormholeLinks((current) => {
+        const active = current.filter((link) => !isWormholeLinkExpired(link, now));
+        return active.length === current.length ? current : active;
+      });
+    }, wait);
+
+    return () => clearTimeout(timeout);
+  }, [wormholeLinks, publicWormholes, linkExpiryClock]);
+
+  useEffect(() => {
+    const urlState = parseMapUrlState(new URLSearchParams(window.location.search));
+
+    if (urlState.colorMode) {
+      setColorMode(urlState.colorMode);
+    }
+    if (urlState.killType) {
+      setKillType(urlState.killType);
+    }
+    if (urlState.fwView) {
+      setFwView(urlState.fwView);
+    }
+    if (urlState.allianceView) {
+      setAllianceView(urlState.allianceView);
+    }
+    if (urlState.selectedSystemId !== undefined) {
+      setSelectedSystemId(urlState.selectedSystemId);
+    }
+    if (urlState.space) {
+      setMapSpace(urlState.space);
+    }
+    if (urlState.route) {
+      setRouteOriginId(urlState.route.originId);
+      setRouteDestinationId(urlState.route.destinationId);
+      setRouteWaypointIds(urlState.route.waypointIds);
+      setRoutePreference(urlState.route.preference);
+      setOptimizeWaypoints(urlState.route.optimize);
+    }
+    if (urlState.jump) {
+      setJumpOriginId(urlState.jump.originId);
+      setJumpDestinationId(urlState.jump.destinationId);
+      setJumpShipClassId(urlState.jump.shipClassId);
+      setJumpJdcLevel(urlState.jump.jdcLevel);
+      setJumpCustomRange(urlState.jump.customRange);
+    }
+    setUrlStateLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!cameraInitialized || !urlStateLoaded) return;
+
+    const timeout = setTimeout(() => {
+      const { minX, minY, maxX, maxY, scale, padding } = coordinateData;
+      const centerX = dimensions.width / 2 - camera.x / camera.zoom;
+      const centerY = dimensions.height / 2 - camera.y / camera.zoom;
+
+      const params = serializeMapUrlState({
+        camera: {
+          x: (centerX - padding) / (scale * (maxX - minX || 1)),
+          y: (dimensions.height - centerY - padding) / (scale * (maxY - minY || 1)),
+          zoom: camera.zoom,
+        },
+        colorMode,
+        killType,
+        fwView,
+        allianceView,
+        space: mapSpace ?? undefined,
+        selectedSystemId: selectedSystemId ?? undefined,
+        route:
+          routeOriginId !== null
+            ? {
+                originId: routeOriginId,
+                destinationId: routeDestinationId,
+                waypointIds: routeWaypointIds,
+                preference: routePreference,
+                optimize: optimizeWaypoints,
+              }
+            : undefined,
+        jump:
+          jumpOriginId !== null
+            ? {
+                originId: jumpOriginId,
+                destinationId: jumpDestinationId,
+                shipClassId: jumpShipClassId,
+                jdcLevel: jumpJdcLevel,
+                customRange: jumpCustomRange,
+              }
+            : undefined,
+      });
+
+      window.history.replaceState(null, '', `${window.location.pathname}?${params}`);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [
+    cameraInitialized,
+    urlStateLoaded,
+    coordinateData,
+    dimensions,
+    camera,
+    colorMode,
+    killType,
+    fwView,
+    allianceView,
+    mapSpace,
+    selectedSystemId,
+    routeOriginId,
+    routeDestinationId,
+    routeWaypointIds,
+    routePreference,
+    optimizeWaypoints,
+    jumpOriginId,
+    jumpDestinationId,
+    jumpShipClassId,
+    jumpJdcLevel,
+    jumpCustomRange,
+  ]);
+
+  useEffect(() => {
+    if (!urlStateLoaded) return;
+
     async function loadMap() {
+      setLoading(true);
       try {
-        const response = await fetch('/api/map/data');
+        const response = await fetch(
+          mapSpace ? `/api/map/data?space=${mapSpace.join(',')}` : '/api/map/data'
+        );
         if (!response.ok) throw new Error('Failed to load map data');
-        const data = await response.json();
-        setMapData(data);
+        const layout = layoutWormholeSpace(await response.json());
+        setMapData(layout.data);
+        setWormholeLabels(layout.labels);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Unknown error');
       } finally {
@@ -320,43 +983,221 @@ export default function StarMap() {
       }
     }
     loadMap();
+  }, [urlStateLoaded, mapSpace]);
+
+  useEffect(() => {
+    async function loadAllSystems() {
+      try {
+        const response = await fetch('/api/map/systems');
+        if (!response.ok) throw new Error('Failed to load system list');
+        const data: SolarSystemListResponse = await response.json();
+        setAllSystems(data.systems);
+      } catch (err) {
+        console.error('Error loading system list:', err);
+      }
+    }
+    loadAllSystems();
   }, []);
 
   useEffect(() => {
-    async function loadSovereignty() {
+    async function loadSDEMetadata() {
+      try {
+        const response = await fetch('/api/meta');
+        if (!response.ok) throw new Error('Failed to load SDE metadata');
+        const data = await response.json();
+        setSdeMetadata(data);
+      } catch (err) {
+        console.error('Error loading SDE metadata:', err);
+      }
+    }
+    loadSDEMetadata();
+  }, []);
+
+  const loadSovereignty = useCallback(async () => {
+    async function loadOwnership() {
       try {
         const response = await fetch('/api/sovereignty');
         if (!response.ok) throw new Error('Failed to load sovereignty data');
-        const data = await response.json();
-        setSovereigntyData(data);
+        setSovereigntyData(await response.json());
+        return isStaleResponse(response);
       } catch (err) {
         console.error('Error loading sovereignty data:', err);
-        setSovereigntyData({});
+        setSovereigntyData((current) => current ?? {});
+        return false;
+      }
+    }
+
+    async function loadContests() {
+      try {
+        const response = await fetch('/api/sovereignty/contests');
+        if (!response.ok) throw new Error('Failed to load FW contest data');
+        const data: Record<number, FactionWarfareSystemStatus> = await response.json();
+
+        const tiers: Record<number, FactionWarfareTier> = {};
+        for (const [systemId, status] of Object.entries(data)) {
+          if (status.tier) {
+            tiers[Number(systemId)] = status.tier;
+          }
+        }
+
+        setFwContests(data);
+        setFwTiers(tiers);
+        return isStaleResponse(response);
+      } catch (err) {
+        console.error('Error loading FW contest data:', err);
+        return false;
+      }
+    }
+
+    const [ownershipStale, contestsStale] = await Promise.all([loadOwnership(), loadContests()]);
+    setStaleColorModes((current) => ({ ...current, faction: ownershipStale || contestsStale }));
+  }, []);
+
+  const loadAllianceSovereignty = useCallback(async () => {
+    try {
+      const response = await fetch('/api/alliance-sovereignty');
+      if (!response.ok) throw new Error('Failed to load alliance sovereignty data');
+      const data: Record<number, AllianceSovereigntySystem> = await response.json();
+
+      const structures: Record<number, SovereigntySystemStructures> = {};
+      for (const [systemId, system] of Object.entries(data)) {
+        if (system.structures) {
+          structures[Number(systemId)] = {
+            adm: system.adm ?? null,
+            structures: system.structures,
+          };
+        }
       }
+
+      setAllianceData(data);
+      setSovStructures(structures);
+      setStaleColorModes((current) => ({ ...current, alliance: isStaleResponse(response) }));
+    } catch (err) {
+      console.error('Error loading alliance sovereignty data:', err);
+      setAllianceData((current) => current ?? {});
+    }
+  }, []);
+
+  const loadSystemJumps = useCallback(async () => {
+    try {
+      const response = await fetch('/api/system-jumps');
+      if (!response.ok) throw new Error('Failed to load system jumps data');
+      setSystemJumpsData(await response.json());
+      setStaleColorModes((current) => ({ ...current, jumps: isStaleResponse(response) }));
+    } catch (err) {
+      console.error('Error loading system jumps data:', err);
+      setSystemJumpsData((current) => current ?? {});
+    }
+  }, []);
+
+  const loadSystemKills = useCallback(async () => {
+    try {
+      const response = await fetch('/api/system-kills');
+      if (!response.ok) throw new Error('Failed to load system kills data');
+      setSystemKillsData(await response.json());
+      setStaleColorModes((current) => ({ ...current, kills: isStaleResponse(response) }));
+    } catch (err) {
+      console.error('Error loading system kills data:', err);
+      setSystemKillsData((current) => current ?? {});
     }
+  }, []);
 
+  useEffect(() => {
     if (!sovereigntyData) {
       loadSovereignty();
     }
-  }, [sovereigntyData]);
+  }, [sovereigntyData, loadSovereignty]);
+
+  useEffect(() => {
+    if (!allianceData) {
+      loadAllianceSovereignty();
+    }
+  }, [allianceData, loadAllianceSovereignty]);
+
+  useEffect(() => {
+    if (colorMode === 'jumps' && !systemJumpsData) {
+      loadSystemJumps();
+    }
+  }, [colorMode, systemJumpsData, loadSystemJumps]);
+
+  useEffect(() => {
+    if (colorMode === 'kills' && !systemKillsData) {
+      loadSystemKills();
+    }
+  }, [colorMode, systemKillsData, loadSystemKills]);
 
+  // Each overlay is loaded once, so while the shown one is stale keep retrying until ESI recovers
   useEffect(() => {
-    async function loadAllianceSovereignty() {
+    if (!staleColorModes[colorMode]) return;
+
+    const overlayLoaders: Partial<Record<ColorMode, () => Promise<void>>> = {
+      faction: loadSovereignty,
+      alliance: loadAllianceSovereignty,
+      jumps: loadSystemJumps,
+      kills: loadSystemKills,
+    };
+    const reload = overlayLoaders[colorMode];
+    if (!reload) return;
+
+    const interval = setInterval(reload, STALE_OVERLAY_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [
+    colorMode,
+    staleColorModes,
+    loadSovereignty,
+    loadAllianceSovereignty,
+    loadSystemJumps,
+    loadSystemKills,
+  ]);
+
+  useEffect(() => {
+    if (!showPublicWormholes) return;
+
+    async function loadPublicWormholes() {
       try {
-        const response = await fetch('/api/alliance-sovereignty');
-        if (!response.ok) throw new Error('Failed to load alliance sovereignty data');
+        const response = await fetch('/api/thera');
+        if (!response.ok) throw new Error('Failed to load public wormhole data');
         const data = await response.json();
-        setAllianceData(data);
+        setPublicWormholes(data);
+        setPublicWormholesError(false);
       } catch (err) {
-        console.error('Error loading alliance sovereignty data:', err);
-        setAllianceData({});
+        console.error('Error loading public wormhole data:', err);
+        setPublicWormholesError(true);
       }
     }
 
-    if (!allianceData) {
-      loadAllianceSovereignty();
+    loadPublicWormholes();
+    const interval = setInterval(loadPublicWormholes, PUBLIC_WORMHOLE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [showPublicWormholes]);
+
+  useEffect(() => {
+    if (colorMode !== 'alliance' || !showSovCampaigns) return;
+
+    async function loadSovereigntyCampaigns() {
+      try {
+        const response = await fetch('/api/sovereignty-campaigns');
+        if (!response.ok) throw new Error('Failed to load sovereignty campaigns');
+        setSovCampaigns(await response.json());
+        setSovCampaignsStale(isStaleResponse(response));
+      } catch (err) {
+        console.error('Error loading sovereignty campaigns:', err);
+        setSovCampaigns([]);
+      }
     }
-  }, [allianceData]);
+
+    loadSovereigntyCampaigns();
+    const interval = setInterval(loadSovereigntyCampaigns, SOV_CAMPAIGN_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [colorMode, showSovCampaigns]);
+
+  useEffect(() => {
+    if (!hoveredSystem?.campaigns) return;
+
+    setCampaignClock(Date.now());
+    const interval = setInterval(() => setCampaignClock(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hoveredSystem]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -419,19 +1260,34 @@ export default function StarMap() {
     const mapCenterX = (renderedMinX + renderedMaxX) / 2;
     const mapCenterY = (renderedMinY + renderedMaxY) / 2;
 
-    const zoom = 2;
     const screenCenterX = dimensions.width / 2;
     const screenCenterY = dimensions.height / 2;
 
-    const initialCamera = {
-      x: -(mapCenterX - screenCenterX) * zoom,
-      y: -(mapCenterY - screenCenterY) * zoom,
-      zoom: zoom,
+    let initialCamera = {
+      x: -(mapCenterX - screenCenterX) * 2,
+      y: -(mapCenterY - screenCenterY) * 2,
+      zoom: 2,
     };
+
+    const urlCamera = skipUrlCameraRef.current
+      ? undefined
+      : parseMapUrlState(new URLSearchParams(window.location.search)).camera;
+    if (urlCamera) {
+      const zoom = Math.max(0.1, Math.min(10, urlCamera.zoom));
+      const canvasX = toCanvasX(minX + urlCamera.x * (maxX - minX));
+      const canvasY = toCanvasY(minY + urlCamera.y * (maxY - minY));
+
+      initialCamera = {
+        x: -(canvasX - screenCenterX) * zoom,
+        y: -(canvasY - screenCenterY) * zoom,
+        zoom: zoom,
+      };
+    }
+
     setCamera(initialCamera);
     cameraRef.current = { ...initialCamera };
     setCameraInitialized(true);
-  }, [mapData, dimensions, coordinateData]);
+  }, [mapData, dimensions, coordinateData, toCanvasX, toCanvasY]);
 
   useEffect(() => {
     if (!mapData || !canvasRef.current || !cameraInitialized) return;
@@ -477,6 +1333,14 @@ export default function StarMap() {
         color = getRegionColor(system.regionID);
       } else if (colorMode === 'security') {
         color = getSecurityColor(system.securityStatus);
+      } else if (colorMode === 'faction' && fwView === 'contest') {
+        const contest = fwContests[system._key];
+        color = contest ? getContestColor(contest) : 'hsl(0, 0%, 30%)';
+      } else if (colorMode === 'faction' && fwView === 'tiers') {
+        const contest = fwContests[system._key];
+        const tier = fwTiers[system._key];
+        color =
+          contest && tier ? getTierColor(contest.occupier_faction_id, tier) : 'hsl(0, 0%, 30%)';
       } else if (colorMode === 'faction') {
         const factionId = sovereigntyData?.[system._key];
 
@@ -488,11 +1352,19 @@ export default function StarMap() {
       } else if (colorMode === 'alliance') {
         const allianceInfo = allianceData?.[system._key];
 
-        if (allianceInfo) {
+        const adm = sovStructures[system._key]?.adm;
+
+        if (allianceInfo && allianceView === 'adm' && adm != null) {
+          color = getAllianceAdmColor(allianceInfo.alliance_id, adm);
+        } else if (allianceInfo) {
           color = getAllianceColor(allianceInfo.alliance_id);
         } else {
           color = 'hsl(0, 0%, 30%)';
         }
+      } else if (colorMode === 'jumps') {
+        color = getHeatmapColor(systemJumpsData?.[system._key], maxSystemJumps);
+      } else if (colorMode === 'kills') {
+        color = getHeatmapColor(getSystemKillCount(system._key), maxSystemKills);
       } else {
         color = getRegionColor(system.regionID);
       }
@@ -501,6 +1373,308 @@ export default function StarMap() {
       ctx.beginPath();
       ctx.arc(x, y, 2 / camera.zoom, 0, Math.PI * 2);
       ctx.fill();
+
+      if (colorMode === 'faction' && fwView === 'contest') {
+        const contest = fwContests[system._key];
+        const outline = contest && FW_CONTEST_OUTLINE_COLORS[contest.contested];
+        if (outline) {
+          ctx.strokeStyle = outline;
+          ctx.lineWidth = 1.5 / camera.zoom;
+          ctx.beginPath();
+          ctx.arc(x, y, 4 / camera.zoom, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+      }
+    }
+
+    // ADM is only legible once systems are spread out enough to label
+    if (colorMode === 'alliance' && allianceView === 'adm' && camera.zoom >= 4) {
+      ctx.font = `${8 / camera.zoom}px Arial`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+
+      for (const system of mapData.systems) {
+        const adm = sovStructures[system._key]?.adm;
+        if (adm == null) continue;
+        ctx.fillText(
+          adm.toFixed(1),
+          toCanvasX(system.position2D?.x || system.position.x) + 4 / camera.zoom,
+          toCanvasY(system.position2D?.y || system.position.y)
+        );
+      }
+    }
+
+    if (colorMode === 'alliance' && showSovCampaigns) {
+      ctx.lineWidth = 1.5 / camera.zoom;
+      ctx.font = `${8 / camera.zoom}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+
+      for (const [systemId, campaigns] of sovCampaignsBySystem) {
+        const system = systemMap.get(systemId);
+        if (!system) continue;
+
+        const x = toCanvasX(system.position2D?.x || system.position.x);
+        const y = toCanvasY(system.position2D?.y || system.position.y);
+        const active = campaigns.some((campaign) => isCampaignActive(campaign, chainClock));
+
+        ctx.strokeStyle = active ? SOV_CAMPAIGN_COLORS.active : SOV_CAMPAIGN_COLORS.upcoming;
+        ctx.beginPath();
+        ctx.arc(x, y, 5 / camera.zoom, 0, Math.PI * 2);
+        ctx.stroke();
+
+        if (camera.zoom >= 4) {
+          ctx.fillStyle = ctx.strokeStyle;
+          campaigns.forEach((campaign, index) => {
+            const score =
+              campaign.attackers_score !== null
+                ? ` · ${Math.round(campaign.attackers_score * 100)}%`
+                : '';
+            ctx.fillText(
+              `${campaign.defender_name ?? 'Freeport'}${score} · ${formatCampaignStart(campaign.start_time)}`,
+              x,
+              y + (6 + index * 9) / camera.zoom
+            );
+          });
+        }
+      }
+    }
+
+    if (visibleWormholeLinks.length > 0) {
+      ctx.lineWidth = 2 / camera.zoom;
+
+      ctx.font = `${10 / camera.zoom}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+
+      for (const link of visibleWormholeLinks) {
+        const fromLoaded = systemMap.has(link.fromId);
+        const toLoaded = systemMap.has(link.toId);
+        ctx.strokeStyle = WORMHOLE_MASS_COLORS[link.mass];
+
+        if (fromLoaded && toLoaded) {
+          const x1 = toCanvasX(link.from.position2D?.x || link.from.position.x);
+          const y1 = toCanvasY(link.from.position2D?.y || link.from.position.y);
+          const x2 = toCanvasX(link.to.position2D?.x || link.to.position.x);
+          const y2 = toCanvasY(link.to.position2D?.y || link.to.position.y);
+
+          // Bow the link sideways so it never hides a stargate line between the same systems
+          const controlX = (x1 + x2) / 2 - (y2 - y1) * 0.2;
+          const controlY = (y1 + y2) / 2 + (x2 - x1) * 0.2;
+
+          ctx.beginPath();
+          ctx.moveTo(x1, y1);
+          ctx.quadraticCurveTo(controlX, controlY, x2, y2);
+          ctx.stroke();
+        } else if (fromLoaded || toLoaded) {
+          // The other end is in space that isn't loaded, so mark this end with where it leads
+          const end = fromLoaded ? link.from : link.to;
+          const other = fromLoaded ? link.to : link.from;
+          const x = toCanvasX(end.position2D?.x || end.position.x);
+          const y = toCanvasY(end.position2D?.y || end.position.y);
+
+          ctx.beginPath();
+          ctx.arc(x, y, 5 / camera.zoom, 0, Math.PI * 2);
+          ctx.stroke();
+
+          ctx.fillStyle = ctx.strokeStyle;
+          ctx.fillText(other.name.en, x, y - 6 / camera.zoom);
+        }
+      }
+    }
+
+    if (livePublicWormholes.length > 0) {
+      ctx.strokeStyle = PUBLIC_WORMHOLE_COLOR;
+      ctx.fillStyle = PUBLIC_WORMHOLE_COLOR;
+      ctx.lineWidth = 1.5 / camera.zoom;
+      ctx.setLineDash([4 / camera.zoom, 3 / camera.zoom]);
+      ctx.font = `${10 / camera.zoom}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+
+      for (const connection of livePublicWormholes) {
+        const hubLoaded = systemMap.has(connection.hubSystemId);
+        const systemLoaded = systemMap.has(connection.systemId);
+        const timeLeft = getWormholeLinkTimeLeft(connection, chainClock);
+        const lifetime = timeLeft !== null ? formatWormholeTimeLeft(timeLeft) : null;
+
+        if (hubLoaded && systemLoaded) {
+          const x1 = toCanvasX(connection.hub.position2D?.x || connection.hub.position.x);
+          const y1 = toCanvasY(connection.hub.position2D?.y || connection.hub.position.y);
+          const x2 = toCanvasX(connection.system.position2D?.x || connection.system.position.x);
+          const y2 = toCanvasY(connection.system.position2D?.y || connection.system.position.y);
+
+          const controlX = (x1 + x2) / 2 - (y2 - y1) * 0.2;
+          const controlY = (y1 + y2) / 2 + (x2 - x1) * 0.2;
+
+          ctx.beginPath();
+          ctx.moveTo(x1, y1);
+          ctx.quadraticCurveTo(controlX, controlY, x2, y2);
+          ctx.stroke();
+
+          if (lifetime) {
+            // Midpoint of the quadratic curve
+            ctx.fillText(lifetime, (x1 + 2 * controlX + x2) / 4, (y1 + 2 * controlY + y2) / 4);
+          }
+        } else if (hubLoaded || systemLoaded) {
+          // Only one end is on this map, so mark it with where the hole leads
+          const end = systemLoaded ? connection.system : connection.hub;
+          const other = systemLoaded ? connection.hub : connection.system;
+          const x = toCanvasX(end.position2D?.x || end.position.x);
+          const y = toCanvasY(end.position2D?.y || end.position.y);
+
+          ctx.beginPath();
+          ctx.arc(x, y, 5 / camera.zoom, 0, Math.PI * 2);
+          ctx.stroke();
+
+          ctx.fillText(
+            lifetime ? `${other.name.en} ${lifetime}` : other.name.en,
+            x,
+            y - 6 / camera.zoom
+          );
+        }
+      }
+
+      ctx.setLineDash([]);
+    }
+
+    if (selectedSystemId !== null) {
+      const selectedSystem = systemMap.get(selectedSystemId);
+      if (selectedSystem) {
+        const x = toCanvasX(selectedSystem.position2D?.x || selectedSystem.position.x);
+        const y = toCanvasY(selectedSystem.position2D?.y || selectedSystem.position.y);
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 2 / camera.zoom;
+        ctx.beginPath();
+        ctx.arc(x, y, 8 / camera.zoom, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    if (jumpRoute && jumpRoute.length > 0) {
+      ctx.strokeStyle = 'hsl(185, 100%, 55%)';
+      ctx.lineWidth = 2 / camera.zoom;
+      ctx.setLineDash([6 / camera.zoom, 4 / camera.zoom]);
+      ctx.beginPath();
+
+      for (const hop of jumpRoute) {
+        ctx.moveTo(
+          toCanvasX(hop.from.position2D?.x || hop.from.position.x),
+          toCanvasY(hop.from.position2D?.y || hop.from.position.y)
+        );
+        ctx.lineTo(
+          toCanvasX(hop.to.position2D?.x || hop.to.position.x),
+          toCanvasY(hop.to.position2D?.y || hop.to.position.y)
+        );
+      }
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = 'hsl(185, 100%, 55%)';
+      for (const hop of jumpRoute) {
+        ctx.beginPath();
+        ctx.arc(
+          toCanvasX(hop.to.position2D?.x || hop.to.position.x),
+          toCanvasY(hop.to.position2D?.y || hop.to.position.y),
+          4 / camera.zoom,
+          0,
+          Math.PI * 2
+        );
+        ctx.fill();
+      }
+    }
+
+    if (jumpOriginId !== null && jumpDestinationId === null) {
+      ctx.strokeStyle = 'hsl(185, 100%, 55%)';
+      ctx.lineWidth = 1.5 / camera.zoom;
+
+      for (const { system } of jumpReachable) {
+        const x = toCanvasX(system.position2D?.x || system.position.x);
+        const y = toCanvasY(system.position2D?.y || system.position.y);
+
+        ctx.beginPath();
+        ctx.arc(x, y, 4 / camera.zoom, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+
+      const jumpOrigin = systemMap.get(jumpOriginId);
+      if (jumpOrigin) {
+        const x = toCanvasX(jumpOrigin.position2D?.x || jumpOrigin.position.x);
+        const y = toCanvasY(jumpOrigin.position2D?.y || jumpOrigin.position.y);
+
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2 / camera.zoom;
+        ctx.beginPath();
+        ctx.arc(x, y, 6 / camera.zoom, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    if (route && route.systems.length > 0) {
+      ctx.strokeStyle = 'rgba(255, 200, 0, 0.9)';
+      ctx.lineWidth = 3 / camera.zoom;
+      ctx.beginPath();
+
+      // Routes through a hub outside the loaded space break the line around the hub
+      let penDown = false;
+      route.systems.forEach((system) => {
+        if (!systemMap.has(system._key)) {
+          penDown = false;
+          return;
+        }
+
+        const x = toCanvasX(system.position2D?.x || system.position.x);
+        const y = toCanvasY(system.position2D?.y || system.position.y);
+
+        if (!penDown) {
+          ctx.moveTo(x, y);
+          penDown = true;
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+
+      route.systems.forEach((system, index) => {
+        if (!systemMap.has(system._key)) return;
+
+        const x = toCanvasX(system.position2D?.x || system.position.x);
+        const y = toCanvasY(system.position2D?.y || system.position.y);
+
+        if (index === 0) {
+          ctx.fillStyle = 'hsl(120, 100%, 50%)';
+        } else if (index === route.systems.length - 1 && routeDestinationId !== null) {
+          ctx.fillStyle = 'hsl(0, 100%, 55%)';
+        } else {
+          ctx.fillStyle = 'hsl(45, 100%, 60%)';
+        }
+
+        ctx.beginPath();
+        ctx.arc(x, y, 4 / camera.zoom, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      const waypointStops = route.stops.slice(1, routeDestinationId !== null ? -1 : undefined);
+      const markerRadius = 8 / camera.zoom;
+
+      ctx.font = `bold ${10 / camera.zoom}px Arial`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+
+      waypointStops.forEach((system, index) => {
+        const x = toCanvasX(system.position2D?.x || system.position.x);
+        const y = toCanvasY(system.position2D?.y || system.position.y) - markerRadius * 1.5;
+
+        ctx.fillStyle = 'hsl(45, 100%, 50%)';
+        ctx.beginPath();
+        ctx.arc(x, y, markerRadius, 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.fillStyle = '#000000';
+        ctx.fillText(String(index + 1), x, y);
+      });
     }
 
     const centerMap = new Map<
@@ -671,6 +1845,16 @@ export default function StarMap() {
       ctx.fillText(text, centerX, centerY);
     }
 
+    if (wormholeLabels.length > 0) {
+      const headingSize = (screenSize * 1.5) / camera.zoom;
+      ctx.font = `bold ${headingSize}px Arial`;
+      ctx.fillStyle = `rgba(255, 255, 255, ${0.9 * opacity})`;
+
+      for (const heading of wormholeLabels) {
+        ctx.fillText(heading.label, toCanvasX(heading.x), toCanvasY(heading.y));
+      }
+    }
+
     ctx.restore();
   }, [
     mapData,
@@ -682,13 +1866,46 @@ export default function StarMap() {
     getRegionColor,
     getSecurityColor,
     getFactionColor,
+    getContestColor,
+    getTierColor,
     getAllianceColor,
+    getAllianceAdmColor,
     colorMode,
+    fwView,
+    fwContests,
+    fwTiers,
+    allianceView,
+    sovStructures,
+    showSovCampaigns,
+    sovCampaignsBySystem,
     cameraInitialized,
     sovereigntyData,
     allianceData,
+    systemJumpsData,
+    maxSystemJumps,
+    getSystemKillCount,
+    maxSystemKills,
+    route,
+    routeDestinationId,
+    jumpOriginId,
+    jumpDestinationId,
+    jumpReachable,
+    jumpRoute,
+    selectedSystemId,
+    wormholeLabels,
+    visibleWormholeLinks,
+    livePublicWormholes,
+    chainClock,
   ]);
 
+  const handleSpaceViewChange = (space: SpaceType[] | null) => {
+    if (space?.join(',') === mapSpace?.join(',')) return;
+
+    skipUrlCameraRef.current = true;
+    setSelectedSystemId(null);
+    setMapSpace(space);
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsDragging(true);
     setDragStart({ x: e.clientX - cameraRef.current.x, y: e.clientY - cameraRef.current.y });
@@ -728,8 +1945,18 @@ export default function StarMap() {
       x: number;
       y: number;
       regionName?: string;
+      wormholeClass?: string;
+      publicWormholes?: string[];
       factionName?: string;
       allianceName?: string;
+      sovStructures?: string[];
+      adm?: number;
+      vulnerabilityWindow?: string;
+      campaigns?: SovereigntyCampaign[];
+      fwContest?: FactionWarfareContest;
+      fwTier?: FactionWarfareTier;
+      jumps?: number;
+      kills?: { ship: number; pod: number; npc: number };
     } | null = null;
     let nearestDistance = hoverRadius;
     let nearestSystemData: (typeof mapData.systems)[0] | null = null;
@@ -774,14 +2001,49 @@ export default function StarMap() {
         }
       }
 
+      const systemId = nearestSystemData._key;
+      const structures = sovStructures[systemId];
+      const vulnerabilityWindow = structures && getVulnerabilityWindow(structures.structures);
+      const publicWormholeLines = livePublicWormholes
+        .filter((c) => c.systemId === systemId || c.hubSystemId === systemId)
+        .map((c) => {
+          const other = c.systemId === systemId ? c.hub : c.system;
+          const timeLeft = getWormholeLinkTimeLeft(c, Date.now());
+          return timeLeft !== null
+            ? `${other.name.en} (${formatWormholeTimeLeft(timeLeft)} left)`
+            : other.name.en;
+        });
+
       nearestSystem = {
         name: nearestSystemData.name.en,
         security: nearestSystemData.securityStatus,
         x: mouseX,
         y: mouseY,
         regionName,
+        wormholeClass: wormholeClassLabels.get(nearestSystemData._key),
+        publicWormholes: publicWormholeLines.length > 0 ? publicWormholeLines : undefined,
         factionName,
         allianceName,
+        sovStructures: structures?.structures.map(
+          (structure) =>
+            SOV_STRUCTURE_TYPE_NAMES[structure.structure_type_id] ??
+            `Type ${structure.structure_type_id}`
+        ),
+        adm: structures?.adm ?? undefined,
+        vulnerabilityWindow: vulnerabilityWindow
+          ? formatVulnerabilityWindow(vulnerabilityWindow)
+          : undefined,
+        campaigns: sovCampaignsBySystem.get(systemId),
+        fwContest: fwContests[systemId],
+        fwTier: fwTiers[systemId],
+        jumps: systemJumpsData ? (systemJumpsData[systemId] ?? 0) : undefined,
+        kills: systemKillsData
+          ? {
+              ship: systemKillsData[systemId]?.ship_kills ?? 0,
+              pod: systemKillsData[systemId]?.pod_kills ?? 0,
+              npc: systemKillsData[systemId]?.npc_kills ?? 0,
+            }
+          : undefined,
       };
     }
 
@@ -879,14 +2141,85 @@ export default function StarMap() {
           {hoveredSystem.regionName && (
             <div className="text-blue-400 text-xs mt-1">Region: {hoveredSystem.regionName}</div>
           )}
+          {hoveredSystem.wormholeClass && (
+            <div className="text-cyan-400 text-xs mt-1">Class: {hoveredSystem.wormholeClass}</div>
+          )}
+          {hoveredSystem.publicWormholes?.map((line) => (
+            <div key={line} className="text-teal-400 text-xs mt-1">
+              Wormhole to {line}
+            </div>
+          ))}
           {hoveredSystem.factionName && (
             <div className="text-purple-400 text-xs mt-1">Faction: {hoveredSystem.factionName}</div>
           )}
+          {colorMode === 'faction' && hoveredSystem.fwContest && (
+            <div className="text-purple-300 text-xs mt-1">
+              {FW_CONTEST_STATUS_LABELS[hoveredSystem.fwContest.contested]}:{' '}
+              {hoveredSystem.fwContest.victory_points.toLocaleString()} /{' '}
+              {hoveredSystem.fwContest.victory_points_threshold.toLocaleString()} VP (
+              {Math.round(getContestProgress(hoveredSystem.fwContest) * 100)}%)
+            </div>
+          )}
+          {colorMode === 'faction' && hoveredSystem.fwTier && (
+            <div className="text-purple-300 text-xs mt-1">
+              Tier: {FW_TIER_LABELS[hoveredSystem.fwTier]}
+            </div>
+          )}
+          {colorMode === 'jumps' && hoveredSystem.jumps !== undefined && (
+            <div className="text-orange-400 text-xs mt-1">
+              Jumps (last hour): {hoveredSystem.jumps.toLocaleString()}
+            </div>
+          )}
+          {colorMode === 'kills' && hoveredSystem.kills && (
+            <div className="text-red-400 text-xs mt-1">
+              Kills (last hour): {hoveredSystem.kills.ship.toLocaleString()} ships,{' '}
+              {hoveredSystem.kills.pod.toLocaleString()} pods,{' '}
+              {hoveredSystem.kills.npc.toLocaleString()} NPCs
+            </div>
+          )}
           {hoveredSystem.allianceName && (
             <div className="text-green-400 text-xs mt-1">
               Sovereignty: {hoveredSystem.allianceName}
             </div>
           )}
+          {colorMode === 'alliance' && hoveredSystem.sovStructures && (
+            <div className="text-green-300 text-xs mt-1">
+              {hoveredSystem.sovStructures.join(', ')}
+              {hoveredSystem.adm !== undefined && <> &middot; ADM {hoveredSystem.adm.toFixed(1)}</>}
+              {hoveredSystem.vulnerabilityWindow && (
+                <div>Vulnerable: {hoveredSystem.vulnerabilityWindow}</div>
+              )}
+            </div>
+          )}
+          {colorMode === 'alliance' &&
+            showSovCampaigns &&
+            hoveredSystem.campaigns?.map((campaign) => {
+              const untilStart = Date.parse(campaign.start_time) - campaignClock;
+              return (
+                <div
+                  key={campaign.campaign_id}
+                  className="text-xs mt-1"
+                  style={{
+                    color:
+                      untilStart <= 0 ? SOV_CAMPAIGN_COLORS.active : SOV_CAMPAIGN_COLORS.upcoming,
+                  }}
+                >
+                  <div>
+                    {SOV_CAMPAIGN_EVENT_LABELS[campaign.event_type]}
+                    {campaign.defender_name && <> &middot; Defender: {campaign.defender_name}</>}
+                  </div>
+                  {campaign.attackers_score !== null && (
+                    <div>Attacker score: {Math.round(campaign.attackers_score * 100)}%</div>
+                  )}
+                  <div>
+                    {untilStart > 0 ? 'Starts' : 'Started'}{' '}
+                    {formatCampaignStart(campaign.start_time)} ({untilStart > 0 ? 'in ' : ''}
+                    {formatCampaignCountdown(untilStart)}
+                    {untilStart > 0 ? '' : ' ago'})
+                  </div>
+                </div>
+              );
+            })}
         </div>
       )}
 
@@ -914,7 +2247,12 @@ export default function StarMap() {
                   onClick={() => handleSelectResult(result)}
                   className="w-full px-4 py-2 text-left hover:bg-gray-800 transition-colors flex items-center justify-between"
                 >
-                  <span className="text-white text-sm">{result.name}</span>
+                  <span className="text-white text-sm">
+                    {result.name}
+                    {result.detail && (
+                      <span className="ml-2 text-gray-400 text-xs">{result.detail}</span>
+                    )}
+                  </span>
                   <span
                     className={`text-xs px-2 py-0.5 rounded ${
                       result.type === 'system'
@@ -929,6 +2267,90 @@ export default function StarMap() {
             </div>
           )}
         </div>
+
+        <div className="mt-2">
+          <RoutePanel
+            systems={mapData?.systems ?? []}
+            regions={mapData?.regions ?? []}
+            origin={routeOriginId !== null ? (systemMap.get(routeOriginId) ?? null) : null}
+            destination={
+              routeDestinationId !== null ? (systemMap.get(routeDestinationId) ?? null) : null
+            }
+            waypoints={routeWaypointIds
+              .map((id) => systemMap.get(id) as SolarSystem | undefined)
+              .filter((system): system is SolarSystem => !!system)}
+            optimizeWaypoints={optimizeWaypoints}
+            route={route}
+            preference={routePreference}
+            avoidList={namedAvoidList}
+            onOriginChange={setRouteOriginId}
+            onDestinationChange={setRouteDestinationId}
+            onWaypointsChange={setRouteWaypointIds}
+            onOptimizeWaypointsChange={setOptimizeWaypoints}
+            onPreferenceChange={setRoutePreference}
+            onAvoidAdd={handleAvoidAdd}
+            onAvoidRemove={handleAvoidRemove}
+            onSystemFocus={focusSystem}
+            getSecurityColor={getSecurityColor}
+            systemSecurityRound={systemSecurityRound}
+          />
+        </div>
+
+        <div className="mt-2">
+          <JumpRangePanel
+            systems={mapData?.systems ?? []}
+            origin={jumpOriginId !== null ? (systemMap.get(jumpOriginId) ?? null) : null}
+            destination={
+              jumpDestinationId !== null ? (systemMap.get(jumpDestinationId) ?? null) : null
+            }
+            shipClassId={jumpShipClassId}
+            customRange={jumpCustomRange}
+            jdcLevel={jumpJdcLevel}
+            range={jumpRange}
+            reachable={jumpReachable}
+            jumpRoute={jumpRoute}
+            fatigue={jumpFatigue}
+            onOriginChange={setJumpOriginId}
+            onDestinationChange={setJumpDestinationId}
+            onShipClassChange={setJumpShipClassId}
+            onCustomRangeChange={setJumpCustomRange}
+            onJdcLevelChange={setJumpJdcLevel}
+            onSystemFocus={focusSystem}
+            getSecurityColor={getSecurityColor}
+            systemSecurityRound={systemSecurityRound}
+          />
+        </div>
+
+        <div className="mt-2">
+          <WormholeChainPanel
+            systems={allSystems ?? mapData?.systems ?? []}
+            links={visibleWormholeLinks}
+            hiddenLinkCount={
+              wormholeLinks.filter((link) => !isWormholeLinkExpired(link, linkExpiryClock)).length -
+              visibleWormholeLinks.length
+            }
+            now={chainClock}
+            useInRoutes={useWormholeLinksInRoutes}
+            onAdd={handleWormholeLinkAdd}
+            onRemove={handleWormholeLinkRemove}
+            onUseInRoutesChange={setUseWormholeLinksInRoutes}
+            onSystemFocus={focusSystem}
+          />
+        </div>
+
+        <div className="mt-2">
+          <PublicWormholePanel
+            connections={livePublicWormholes}
+            source={publicWormholes?.source ?? null}
+            error={publicWormholesError}
+            now={chainClock}
+            visible={showPublicWormholes}
+            useInRoutes={usePublicWormholesInRoutes}
+            onVisibleChange={setShowPublicWormholes}
+            onUseInRoutesChange={setUsePublicWormholesInRoutes}
+            onSystemFocus={focusSystem}
+          />
+        </div>
       </div>
 
       <div className="absolute top-4 right-4 bg-gray-900 border border-gray-700 rounded-lg p-3 shadow-lg">
@@ -974,8 +2396,222 @@ export default function StarMap() {
           >
             Alliance Sovereignty
           </button>
+          <button
+            onClick={() => setColorMode('jumps')}
+            className={`px-3 py-1 text-sm rounded transition-colors ${
+              colorMode === 'jumps'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            Jumps
+          </button>
+          <button
+            onClick={() => setColorMode('kills')}
+            className={`px-3 py-1 text-sm rounded transition-colors ${
+              colorMode === 'kills'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            Kills
+          </button>
+        </div>
+        {staleColorModes[colorMode] && (
+          <div className="text-yellow-500 text-xs mt-2">
+            ⚠ ESI is unavailable, showing the last known data
+          </div>
+        )}
+        {colorMode === 'faction' && (
+          <div className="flex items-center gap-3 mt-2">
+            <span className="text-gray-300 text-sm font-medium">View:</span>
+            {FW_VIEWS.map((view) => (
+              <button
+                key={view}
+                onClick={() => setFwView(view)}
+                className={`px-3 py-1 text-sm rounded transition-colors ${
+                  fwView === view
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {FW_VIEW_LABELS[view]}
+              </button>
+            ))}
+          </div>
+        )}
+        {colorMode === 'faction' && fwView === 'contest' && (
+          <div className="mt-2 text-xs text-gray-400">
+            <div className="flex items-center gap-2">
+              <span>0%</span>
+              <div
+                className="flex-1 h-2 rounded"
+                style={{
+                  background: 'linear-gradient(to right, hsl(0, 0%, 20%), hsl(0, 0%, 70%))',
+                }}
+              />
+              <span>100% of VP threshold</span>
+            </div>
+            <div className="flex items-center gap-3 mt-1">
+              {(['vulnerable', 'captured'] as const).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span
+                    className="w-3 h-3 rounded-full border-2"
+                    style={{ borderColor: FW_CONTEST_OUTLINE_COLORS[status] }}
+                  />
+                  {FW_CONTEST_STATUS_LABELS[status]}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        {colorMode === 'faction' && fwView === 'tiers' && (
+          <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+            {(Object.keys(FW_TIER_LABELS) as FactionWarfareTier[]).map((tier) => (
+              <span key={tier} className="flex items-center gap-1">
+                <span
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: `hsl(0, 0%, ${FW_TIER_LIGHTNESS[tier]}%)` }}
+                />
+                {FW_TIER_LABELS[tier]}
+              </span>
+            ))}
+          </div>
+        )}
+        {colorMode === 'alliance' && (
+          <div className="flex items-center gap-3 mt-2">
+            <span className="text-gray-300 text-sm font-medium">View:</span>
+            {ALLIANCE_VIEWS.map((view) => (
+              <button
+                key={view}
+                onClick={() => setAllianceView(view)}
+                className={`px-3 py-1 text-sm rounded transition-colors ${
+                  allianceView === view
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {ALLIANCE_VIEW_LABELS[view]}
+              </button>
+            ))}
+          </div>
+        )}
+        {colorMode === 'alliance' && allianceView === 'adm' && (
+          <div className="mt-2 text-xs text-gray-400">
+            <div className="flex items-center gap-2">
+              <span>ADM {MIN_ADM.toFixed(1)}</span>
+              <div
+                className="flex-1 h-2 rounded"
+                style={{
+                  background: `linear-gradient(to right, hsl(0, 0%, ${getAdmLightness(MIN_ADM)}%), hsl(0, 0%, ${getAdmLightness(MAX_ADM)}%))`,
+                }}
+              />
+              <span>{MAX_ADM.toFixed(1)}</span>
+            </div>
+            <div className="mt-1">Zoom in to label each system&apos;s ADM</div>
+          </div>
+        )}
+        {colorMode === 'alliance' && (
+          <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+            <button
+              onClick={() => setShowSovCampaigns(!showSovCampaigns)}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                showSovCampaigns
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              Campaigns{showSovCampaigns ? ` (${sovCampaigns.length})` : ''}
+            </button>
+            {showSovCampaigns &&
+              (['active', 'upcoming'] as const).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span
+                    className="w-3 h-3 rounded-full border-2"
+                    style={{ borderColor: SOV_CAMPAIGN_COLORS[status] }}
+                  />
+                  {status === 'active' ? 'Active' : 'Upcoming'}
+                </span>
+              ))}
+          </div>
+        )}
+        {colorMode === 'alliance' && showSovCampaigns && sovCampaignsStale && (
+          <div className="text-yellow-500 text-xs mt-2">
+            ⚠ ESI is unavailable, showing the last known campaigns
+          </div>
+        )}
+        {colorMode === 'jumps' && systemJumpsData && (
+          <HeatmapLegend title="Ship jumps in the last hour" max={maxSystemJumps} />
+        )}
+        {colorMode === 'kills' && (
+          <div className="flex items-center gap-3 mt-2">
+            <span className="text-gray-300 text-sm font-medium">Kills:</span>
+            {KILL_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => setKillType(type)}
+                className={`px-3 py-1 text-sm rounded transition-colors ${
+                  killType === type
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                }`}
+              >
+                {KILL_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        )}
+        {colorMode === 'kills' && systemKillsData && (
+          <HeatmapLegend
+            title={`${KILL_TYPE_LABELS[killType]} kills in the last hour`}
+            max={maxSystemKills}
+          />
+        )}
+        <div className="flex items-center gap-3 mt-2">
+          <span className="text-gray-300 text-sm font-medium">Space:</span>
+          <button
+            onClick={() => handleSpaceViewChange(null)}
+            className={`px-3 py-1 text-sm rounded transition-colors ${
+              !isJSpaceView
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            Known Space
+          </button>
+          <button
+            onClick={() => handleSpaceViewChange(['wspace'])}
+            className={`px-3 py-1 text-sm rounded transition-colors ${
+              isJSpaceView
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            J-Space
+          </button>
         </div>
       </div>
+
+      {sdeMetadata && (
+        <div
+          className="absolute bottom-2 right-4 text-xs text-gray-500"
+          title={sdeMetadata.warnings.join('\n') || undefined}
+        >
+          {sdeMetadata.build
+            ? `SDE build ${sdeMetadata.build.buildNumber}${
+                sdeMetadata.build.releaseDate
+                  ? ` (${sdeMetadata.build.releaseDate.slice(0, 10)})`
+                  : ''
+              }`
+            : 'SDE build unknown'}
+          {sdeMetadata.warnings.length > 0 && (
+            <span className="ml-2 text-yellow-500">
+              ⚠ {sdeMetadata.warnings.length}{' '}
+              {sdeMetadata.warnings.length === 1 ? 'warning' : 'warnings'}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,72 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { SolarSystem } from '@/lib/sde-types';
+
+interface SystemPickerProps {
+  label: string;
+  systems: SolarSystem[];
+  selected: SolarSystem | null;
+  onSelect: (systemId: number | null) => void;
+}
+
+export default function SystemPicker({ label, systems, selected, onSelect }: SystemPickerProps) {
+  const [query, setQuery] = useState('');
+  const [showAutocomplete, setShowAutocomplete] = useState(false);
+
+  const results = useMemo(() => {
+    const lowerQuery = query.trim().toLowerCase();
+    if (!lowerQuery) return [];
+
+    const matches: SolarSystem[] = [];
+    for (const system of systems) {
+      if (system.name.en.toLowerCase().includes(lowerQuery)) {
+        matches.push(system);
+        if (matches.length >= 8) break;
+      }
+    }
+    return matches;
+  }, [query, systems]);
+
+  return (
+    <div className="relative">
+      <label className="block text-gray-400 text-xs mb-1">{label}</label>
+      <input
+        type="text"
+        value={showAutocomplete ? query : selected?.name.en || query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setShowAutocomplete(true);
+          if (!e.target.value.trim()) onSelect(null);
+        }}
+        onFocus={() => {
+          setQuery('');
+          setShowAutocomplete(true);
+        }}
+        onBlur={() => {
+          setTimeout(() => setShowAutocomplete(false), 200);
+        }}
+        placeholder="System name..."
+        className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+      />
+
+      {showAutocomplete && results.length > 0 && (
+        <div className="absolute top-full mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg shadow-lg max-h-64 overflow-y-auto z-10">
+          {results.map((system) => (
+            <button
+              key={system._key}
+              onClick={() => {
+                onSelect(system._key);
+                setQuery('');
+                setShowAutocomplete(false);
+              }}
+              className="w-full px-3 py-1.5 text-left text-white text-sm hover:bg-gray-800 transition-colors"
+            >
+              {system.name.en}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import type { SolarSystem } from '@/lib/sde-types';
+import {
+  WORMHOLE_MASS_COLORS,
+  WORMHOLE_MASS_STATUSES,
+  formatWormholeTimeLeft,
+  getWormholeLinkTimeLeft,
+  type WormholeLink,
+  type WormholeMassStatus,
+} from '@/lib/wormhole-chain';
+import SystemPicker from './SystemPicker';
+
+interface WormholeChainPanelProps {
+  systems: SolarSystem[];
+  links: Array<WormholeLink & { from: SolarSystem; to: SolarSystem }>;
+  hiddenLinkCount: number;
+  now: number;
+  useInRoutes: boolean;
+  onAdd: (link: Omit<WormholeLink, 'id'>) => void;
+  onRemove: (linkId: string) => void;
+  onUseInRoutesChange: (useInRoutes: boolean) => void;
+  onSystemFocus: (systemId: number) => void;
+}
+
+const MASS_LABELS: Record<WormholeMassStatus, string> = {
+  stable: 'Stable',
+  destabilized: 'Destabilized',
+  critical: 'Critical',
+};
+
+export default function WormholeChainPanel({
+  systems,
+  links,
+  hiddenLinkCount,
+  now,
+  useInRoutes,
+  onAdd,
+  onRemove,
+  onUseInRoutesChange,
+  onSystemFocus,
+}: WormholeChainPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [type, setType] = useState('');
+  const [mass, setMass] = useState<WormholeMassStatus>('stable');
+  const [expiresInHours, setExpiresInHours] = useState('');
+
+  const systemById = (id: number | null) =>
+    id !== null ? (systems.find((system) => system._key === id) ?? null) : null;
+
+  const canAdd = fromId !== null && toId !== null && fromId !== toId;
+
+  const handleAdd = () => {
+    if (fromId === null || toId === null || fromId === toId) return;
+
+    const hours = Number(expiresInHours);
+    onAdd({
+      fromId,
+      toId,
+      type: type.trim() ? type.trim().toUpperCase() : null,
+      mass,
+      expiresAt:
+        expiresInHours.trim() && hours > 0
+          ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+          : null,
+    });
+
+    setFromId(toId);
+    setToId(null);
+    setType('');
+    setMass('stable');
+    setExpiresInHours('');
+  };
+
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-lg shadow-lg">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-2 flex items-center justify-between text-gray-300 text-sm font-medium"
+      >
+        <span>
+          Wormhole Chain
+          {links.length > 0 && <span className="text-gray-500"> ({links.length})</span>}
+        </span>
+        <span className="text-gray-500">{expanded ? '−' : '+'}</span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <SystemPicker
+            label="From"
+            systems={systems}
+            selected={systemById(fromId)}
+            onSelect={setFromId}
+          />
+          <SystemPicker
+            label="To"
+            systems={systems}
+            selected={systemById(toId)}
+            onSelect={setToId}
+          />
+
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-gray-400 text-xs mb-1">Type (optional)</label>
+              <input
+                type="text"
+                value={type}
+                onChange={(e) => setType(e.target.value)}
+                placeholder="K162"
+                maxLength={8}
+                className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-gray-400 text-xs mb-1">Expires in (hours)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={expiresInHours}
+                onChange={(e) => setExpiresInHours(e.target.value)}
+                placeholder="Unknown"
+                className="w-full px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-gray-400 text-xs mb-1">Mass</label>
+            <div className="flex gap-1">
+              {WORMHOLE_MASS_STATUSES.map((status) => (
+                <button
+                  key={status}
+                  onClick={() => setMass(status)}
+                  className={`flex-1 py-1 text-sm rounded transition-colors ${
+                    mass === status
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                  }`}
+                >
+                  {MASS_LABELS[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="w-full py-1.5 text-sm rounded transition-colors bg-blue-600 text-white hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500"
+          >
+            Add connection
+          </button>
+
+          <label className="flex items-center gap-2 text-gray-400 text-xs">
+            <input
+              type="checkbox"
+              checked={useInRoutes}
+              onChange={(e) => onUseInRoutesChange(e.target.checked)}
+            />
+            Use connections in gate routes
+          </label>
+
+          {links.length > 0 && (
+            <ol className="max-h-60 overflow-y-auto space-y-1">
+              {links.map((link) => {
+                const timeLeft = getWormholeLinkTimeLeft(link, now);
+                return (
+                  <li key={link.id} className="flex items-start gap-2">
+                    <span
+                      className="mt-1.5 w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: WORMHOLE_MASS_COLORS[link.mass] }}
+                    />
+                    <div className="flex-1 text-sm">
+                      <div>
+                        <button
+                          onClick={() => onSystemFocus(link.from._key)}
+                          className="text-white hover:text-blue-400"
+                        >
+                          {link.from.name.en}
+                        </button>
+                        <span className="text-gray-500"> ↔ </span>
+                        <button
+                          onClick={() => onSystemFocus(link.to._key)}
+                          className="text-white hover:text-blue-400"
+                        >
+                          {link.to.name.en}
+                        </button>
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {[
+                          link.type,
+                          MASS_LABELS[link.mass],
+                          timeLeft !== null ? `${formatWormholeTimeLeft(timeLeft)} left` : null,
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => onRemove(link.id)}
+                      className="text-gray-500 hover:text-red-400 text-sm"
+                      aria-label="Remove connection"
+                    >
+                      ×
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {hiddenLinkCount > 0 && (
+            <div className="text-gray-500 text-xs">
+              {hiddenLinkCount} {hiddenLinkCount === 1 ? 'connection is' : 'connections are'}{' '}
+              waiting for system data
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,43 @@
  * Ensures consistent headers and User-Agent across all requests
  */
 
-const ESI_BASE_URL = 'https://esi.evetech.net/latest';
-const USER_AGENT = 'EVE Online Interactive Map (https://github.com/ectkirk/ectmap)';
+import { createESICacheStore, getResponseExpiry } from './esi-cache';
+import { ESICircuitOpenError, ESIError, ESIHttpError, ESINetworkError } from './esi-errors';
+
+/**
+ * ESI root, overridable to point at a stand-in such as npm run esi:mock
+ */
+const ESI_BASE_URL = (process.env.ESI_BASE_URL || 'https://esi.evetech.net/latest').replace(
+  /\/$/,
+  ''
+);
+export const USER_AGENT = 'EVE Online Interactive Map (https://github.com/ectkirk/ectmap)';
 const X_COMPATIBILITY_DATE = '2025-11-06';
 
+/**
+ * Attempts per request, including the first
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * First retry delay, doubled on each further attempt
+ */
+const RETRY_BASE_DELAY = 500;
+
+/**
+ * Waits longer than this fail the request instead of holding up the API route
+ */
+const MAX_RETRY_DELAY = 10 * 1000;
+
+/**
+ * Stop calling ESI when this few errors are left in the current error-limit window
+ */
+const ERROR_LIMIT_THRESHOLD = 10;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 interface ESIRequestOptions {
   endpoint: string;
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -14,14 +47,65 @@ interface ESIRequestOptions {
   body?: unknown;
 }
 
+export interface ESIResponse<T> {
+  data: T;
+  /** Epoch milliseconds when ESI will publish fresh data, per its Expires header */
+  expiresAt: number;
+}
+
 export class ESIAgent {
+  /**
+   * Shared cache for GET responses, chosen by ESI_CACHE
+   */
+  private static cache = createESICacheStore();
+
+  /**
+   * Epoch milliseconds until which requests are refused because the error budget is low
+   */
+  private static circuitOpenUntil = 0;
+
+  /**
+   * Open the circuit when ESI reports the error budget is nearly spent
+   */
+  private static trackErrorLimit(headers: Headers) {
+    const remain = parseInt(headers.get('x-esi-error-limit-remain') ?? '', 10);
+    const reset = parseInt(headers.get('x-esi-error-limit-reset') ?? '', 10);
+
+    if (Number.isNaN(remain) || Number.isNaN(reset) || remain > ERROR_LIMIT_THRESHOLD) return;
+
+    const openUntil = Date.now() + reset * 1000;
+    if (openUntil > this.circuitOpenUntil) {
+      this.circuitOpenUntil = openUntil;
+      console.warn(`ESI error limit low (${remain} left), pausing ESI requests for ${reset}s`);
+    }
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when ESI sends one, else exponential backoff
+   */
+  private static getRetryDelay(attempt: number, response: Response | null): number {
+    const retryAfter = parseInt(response?.headers.get('retry-after') ?? '', 10);
+    if (!Number.isNaN(retryAfter)) {
+      return retryAfter * 1000;
+    }
+    return RETRY_BASE_DELAY * 2 ** attempt * (1 + Math.random() * 0.2);
+  }
+
   /**
    * Make a request to the ESI API
+   * GET responses are cached until they expire, then revalidated with their ETag/Last-Modified.
+   * Server errors, 420 and 429 are retried with backoff; failures throw an ESIError subclass.
    */
-  static async request<T>(options: ESIRequestOptions): Promise<T> {
+  static async request<T>(options: ESIRequestOptions): Promise<ESIResponse<T>> {
     const { endpoint, method = 'GET', headers = {}, body } = options;
 
     const url = endpoint.startsWith('http') ? endpoint : `${ESI_BASE_URL}${endpoint}`;
+    const cache = method === 'GET' ? this.cache : null;
+    const cached = cache ? await cache.get(url) : null;
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return { data: cached.body as T, expiresAt: cached.expiresAt };
+    }
 
     const requestHeaders: Record<string, string> = {
       'User-Agent': USER_AGENT,
@@ -30,6 +114,13 @@ export class ESIAgent {
       ...headers,
     };
 
+    if (cached?.etag) {
+      requestHeaders['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      requestHeaders['If-Modified-Since'] = cached.lastModified;
+    }
+
     const requestOptions: RequestInit = {
       method,
       headers: requestHeaders,
@@ -40,27 +131,73 @@ export class ESIAgent {
       requestHeaders['Content-Type'] = 'application/json';
     }
 
-    const response = await fetch(url, requestOptions);
+    let lastError: ESIError | null = null;
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      if (Date.now() < this.circuitOpenUntil) {
+        throw lastError ?? new ESICircuitOpenError(endpoint, this.circuitOpenUntil);
+      }
+
+      let response: Response | null = null;
+      try {
+        response = await fetch(url, requestOptions);
+      } catch (error) {
+        lastError = new ESINetworkError(endpoint, error);
+      }
+
+      if (response) {
+        this.trackErrorLimit(response.headers);
+        const expiresAt = getResponseExpiry(response.headers);
+
+        if (response.status === 304 && cached && cache) {
+          await cache.set(url, { ...cached, expiresAt });
+          return { data: cached.body as T, expiresAt };
+        }
+
+        if (response.ok) {
+          const data: T = await response.json();
+
+          if (cache) {
+            await cache.set(url, {
+              body: data,
+              etag: response.headers.get('etag'),
+              lastModified: response.headers.get('last-modified'),
+              expiresAt,
+            });
+          }
+
+          return { data, expiresAt };
+        }
 
-    if (!response.ok) {
-      throw new Error(`ESI request failed: ${response.status} ${response.statusText}`);
+        const error = new ESIHttpError(endpoint, response.status, response.statusText);
+        if (!error.retryable) {
+          throw error;
+        }
+        lastError = error;
+      }
+
+      const delay = this.getRetryDelay(attempt, response);
+      if (attempt === MAX_ATTEMPTS - 1 || delay > MAX_RETRY_DELAY) break;
+      await sleep(delay);
     }
 
-    return response.json();
+    throw lastError;
   }
 
   /**
    * Get faction warfare systems
    */
   static async getFactionWarfareSystems(): Promise<
-    Array<{
-      contested: 'captured' | 'contested' | 'uncontested' | 'vulnerable';
-      occupier_faction_id: number;
-      owner_faction_id: number;
-      solar_system_id: number;
-      victory_points: number;
-      victory_points_threshold: number;
-    }>
+    ESIResponse<
+      Array<{
+        contested: 'captured' | 'contested' | 'uncontested' | 'vulnerable';
+        occupier_faction_id: number;
+        owner_faction_id: number;
+        solar_system_id: number;
+        victory_points: number;
+        victory_points_threshold: number;
+      }>
+    >
   > {
     return this.request({
       endpoint: '/fw/systems/',
@@ -71,27 +208,112 @@ export class ESIAgent {
    * Get sovereignty map
    */
   static async getSovereigntyMap(): Promise<
-    Array<{
-      alliance_id?: number;
-      corporation_id?: number;
-      faction_id?: number;
-      system_id: number;
-    }>
+    ESIResponse<
+      Array<{
+        alliance_id?: number;
+        corporation_id?: number;
+        faction_id?: number;
+        system_id: number;
+      }>
+    >
   > {
     return this.request({
       endpoint: '/sovereignty/map/',
     });
   }
 
+  /**
+   * Get sovereignty structures (IHubs and TCUs) with their ADM and vulnerability window
+   */
+  static async getSovereigntyStructures(): Promise<
+    ESIResponse<
+      Array<{
+        alliance_id: number;
+        solar_system_id: number;
+        structure_id: number;
+        structure_type_id: number;
+        vulnerability_occupancy_level?: number;
+        vulnerable_end_time?: string;
+        vulnerable_start_time?: string;
+      }>
+    >
+  > {
+    return this.request({
+      endpoint: '/sovereignty/structures/',
+    });
+  }
+
+  /**
+   * Get active and upcoming sovereignty campaigns (entosis events)
+   */
+  static async getSovereigntyCampaigns(): Promise<
+    ESIResponse<
+      Array<{
+        attackers_score?: number;
+        campaign_id: number;
+        constellation_id: number;
+        defender_id?: number;
+        defender_score?: number;
+        event_type: 'tcu_defense' | 'ihub_defense' | 'station_defense' | 'station_freeport';
+        participants?: Array<{ alliance_id: number; score: number }>;
+        solar_system_id: number;
+        start_time: string;
+        structure_id: number;
+      }>
+    >
+  > {
+    return this.request({
+      endpoint: '/sovereignty/campaigns/',
+    });
+  }
+
+  /**
+   * Get ship jumps per system in the last hour
+   * Systems without jumps are omitted
+   */
+  static async getSystemJumps(): Promise<
+    ESIResponse<
+      Array<{
+        ship_jumps: number;
+        system_id: number;
+      }>
+    >
+  > {
+    return this.request({
+      endpoint: '/universe/system_jumps/',
+    });
+  }
+
+  /**
+   * Get ship, pod and NPC kills per system in the last hour
+   * Systems without kills are omitted
+   */
+  static async getSystemKills(): Promise<
+    ESIResponse<
+      Array<{
+        npc_kills: number;
+        pod_kills: number;
+        ship_kills: number;
+        system_id: number;
+      }>
+    >
+  > {
+    return this.request({
+      endpoint: '/universe/system_kills/',
+    });
+  }
+
   /**
    * Resolve IDs to names
    */
   static async getNames(ids: number[]): Promise<
-    Array<{
-      category: string;
-      id: number;
-      name: string;
-    }>
+    ESIResponse<
+      Array<{
+        category: string;
+        id: number;
+        name: string;
+      }>
+    >
   > {
     return this.request({
       endpoint: '/universe/names/',
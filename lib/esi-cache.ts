@@ -0,0 +1,108 @@
+/**
+ * HTTP cache for ESI GET responses
+ * Entries live until the Expires time ESI sends, then are revalidated with If-None-Match and
+ * If-Modified-Since so unchanged data costs a 304 instead of a full download
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface ESICacheEntry {
+  body: unknown;
+  etag: string | null;
+  lastModified: string | null;
+  /** Epoch milliseconds after which the entry must be revalidated */
+  expiresAt: number;
+}
+
+export interface ESICacheStore {
+  get(key: string): Promise<ESICacheEntry | null>;
+  set(key: string, entry: ESICacheEntry): Promise<void>;
+}
+
+export class MemoryESICacheStore implements ESICacheStore {
+  private entries = new Map<string, ESICacheEntry>();
+
+  async get(key: string): Promise<ESICacheEntry | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: ESICacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+}
+
+/**
+ * Keeps entries as JSON files so they survive restarts, with an in-memory copy for fast hits
+ */
+export class DiskESICacheStore implements ESICacheStore {
+  private memory = new MemoryESICacheStore();
+
+  constructor(private readonly directory: string) {}
+
+  private getPath(key: string): string {
+    return join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<ESICacheEntry | null> {
+    const cached = await this.memory.get(key);
+    if (cached) return cached;
+
+    try {
+      const entry: ESICacheEntry = JSON.parse(await readFile(this.getPath(key), 'utf-8'));
+      await this.memory.set(key, entry);
+      return entry;
+    } catch {
+      // Not cached yet or unreadable, fetch below
+      return null;
+    }
+  }
+
+  async set(key: string, entry: ESICacheEntry): Promise<void> {
+    await this.memory.set(key, entry);
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(this.getPath(key), JSON.stringify(entry));
+    } catch (error) {
+      console.warn('Could not persist ESI cache entry:', error);
+    }
+  }
+}
+
+/**
+ * Directory for the disk store
+ */
+export const ESI_CACHE_PATH = process.env.ESI_CACHE_PATH || join(process.cwd(), '.esi-cache');
+
+/**
+ * Store selected by ESI_CACHE: memory (default), disk, or off
+ */
+export function createESICacheStore(): ESICacheStore | null {
+  switch (process.env.ESI_CACHE) {
+    case 'off':
+      return null;
+    case 'disk':
+      return new DiskESICacheStore(ESI_CACHE_PATH);
+    default:
+      return new MemoryESICacheStore();
+  }
+}
+
+/**
+ * When a response goes stale, from Expires (or Cache-Control max-age)
+ * Expires is measured against the response's Date header so a skewed local clock doesn't matter
+ */
+export function getResponseExpiry(headers: Headers, now: number = Date.now()): number {
+  const maxAge = headers.get('cache-control')?.match(/max-age=(\d+)/);
+  const expires = Date.parse(headers.get('expires') ?? '');
+
+  if (!Number.isNaN(expires)) {
+    const date = Date.parse(headers.get('date') ?? '');
+    return now + (expires - (Number.isNaN(date) ? now : date));
+  }
+  if (maxAge) {
+    return now + parseInt(maxAge[1], 10) * 1000;
+  }
+  return now;
+}
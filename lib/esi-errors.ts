@@ -0,0 +1,64 @@
+/**
+ * Errors thrown by ESIAgent, so callers can tell outages from rate limiting from bad requests
+ */
+
+export class ESIError extends Error {
+  constructor(
+    message: string,
+    readonly endpoint: string
+  ) {
+    super(message);
+    this.name = 'ESIError';
+  }
+}
+
+/**
+ * ESI answered with a non-OK status
+ */
+export class ESIHttpError extends ESIError {
+  constructor(
+    endpoint: string,
+    readonly status: number,
+    readonly statusText: string
+  ) {
+    super(`ESI request failed: ${status} ${statusText} (${endpoint})`, endpoint);
+    this.name = 'ESIHttpError';
+  }
+
+  get retryable(): boolean {
+    return this.status >= 500 || this.status === 420 || this.status === 429;
+  }
+}
+
+/**
+ * ESI could not be reached at all
+ */
+export class ESINetworkError extends ESIError {
+  constructor(
+    endpoint: string,
+    readonly cause: unknown
+  ) {
+    super(
+      `ESI request failed: ${cause instanceof Error ? cause.message : cause} (${endpoint})`,
+      endpoint
+    );
+    this.name = 'ESINetworkError';
+  }
+}
+
+/**
+ * The error budget is nearly spent, so requests are refused until ESI resets it
+ */
+export class ESICircuitOpenError extends ESIError {
+  constructor(
+    endpoint: string,
+    /** Epoch milliseconds when requests are allowed again */
+    readonly retryAt: number
+  ) {
+    super(
+      `ESI error limit reached, not calling ESI until ${new Date(retryAt).toISOString()} (${endpoint})`,
+      endpoint
+    );
+    this.name = 'ESICircuitOpenError';
+  }
+}
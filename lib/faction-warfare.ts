@@ -0,0 +1,128 @@
+/**
+ * Faction Warfare contest state and adjacency tiers, shared by the FW API route and the map
+ */
+
+import type { GateGraph } from './route-planner';
+
+/**
+ * Opposing factions in each warzone: Caldari/Gallente and Amarr/Minmatar
+ */
+export const FW_WARZONES: Array<[number, number]> = [
+  [500001, 500004],
+  [500003, 500002],
+];
+
+/**
+ * Adjacency tiers: frontline systems border enemy space, command operations systems border the
+ * frontline, and rearguard systems are further back
+ */
+export type FactionWarfareTier = 'frontline' | 'command' | 'rearguard';
+
+export const FW_TIER_LABELS: Record<FactionWarfareTier, string> = {
+  frontline: 'Frontline',
+  command: 'Command Operations',
+  rearguard: 'Rearguard',
+};
+
+/**
+ * Lightness of the occupier's faction color for each tier, brightest at the front
+ */
+export const FW_TIER_LIGHTNESS: Record<FactionWarfareTier, number> = {
+  frontline: 65,
+  command: 42,
+  rearguard: 22,
+};
+
+export type FactionWarfareContestStatus = 'captured' | 'contested' | 'uncontested' | 'vulnerable';
+
+/**
+ * Per-system contest state in ESI's field names
+ */
+export interface FactionWarfareContest {
+  contested: FactionWarfareContestStatus;
+  occupier_faction_id: number;
+  victory_points: number;
+  victory_points_threshold: number;
+}
+
+/**
+ * Per-system entry served by /api/sovereignty/contests, with the system's tier when known
+ */
+export interface FactionWarfareSystemStatus extends FactionWarfareContest {
+  tier?: FactionWarfareTier;
+}
+
+/**
+ * Outline colors for systems one step from changing hands
+ */
+export const FW_CONTEST_OUTLINE_COLORS: Partial<Record<FactionWarfareContestStatus, string>> = {
+  vulnerable: 'hsl(45, 100%, 60%)',
+  captured: 'hsl(0, 100%, 60%)',
+};
+
+export const FW_CONTEST_STATUS_LABELS: Record<FactionWarfareContestStatus, string> = {
+  captured: 'Captured',
+  contested: 'Contested',
+  uncontested: 'Uncontested',
+  vulnerable: 'Vulnerable',
+};
+
+/**
+ * Share of the victory point threshold reached, from 0 to 1
+ */
+export function getContestProgress(contest: FactionWarfareContest): number {
+  if (contest.victory_points_threshold <= 0) return 0;
+  return Math.min(1, contest.victory_points / contest.victory_points_threshold);
+}
+
+function getEnemyFaction(factionId: number): number | null {
+  const warzone = FW_WARZONES.find((factions) => factions.includes(factionId));
+  if (!warzone) return null;
+  return warzone[0] === factionId ? warzone[1] : warzone[0];
+}
+
+/**
+ * Classify every FW system by gate distance from the nearest system its enemy occupies
+ * The walk stays inside the warzone, so gates through non-FW space don't make a system frontline
+ */
+export function classifyFactionWarfareTiers(
+  occupiers: ReadonlyMap<number, number>,
+  graph: GateGraph
+): Record<number, FactionWarfareTier> {
+  const tiers: Record<number, FactionWarfareTier> = {};
+
+  for (const factionId of FW_WARZONES.flat()) {
+    const enemyId = getEnemyFaction(factionId);
+    const distances = new Map<number, number>();
+    let frontier: number[] = [];
+
+    for (const [systemId, occupierId] of occupiers) {
+      if (occupierId === enemyId) {
+        distances.set(systemId, 0);
+        frontier.push(systemId);
+      }
+    }
+
+    // Distances past command operations don't change the tier, so stop there
+    for (let distance = 1; distance <= 2 && frontier.length > 0; distance++) {
+      const next: number[] = [];
+      for (const systemId of frontier) {
+        for (const neighbourId of graph.get(systemId) ?? []) {
+          if (occupiers.has(neighbourId) && !distances.has(neighbourId)) {
+            distances.set(neighbourId, distance);
+            next.push(neighbourId);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    for (const [systemId, occupierId] of occupiers) {
+      if (occupierId !== factionId) continue;
+      const distance = distances.get(systemId);
+      tiers[systemId] = distance === 1 ? 'frontline' : distance === 2 ? 'command' : 'rearguard';
+    }
+  }
+
+  return tiers;
+}
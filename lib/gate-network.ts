@@ -0,0 +1,66 @@
+/**
+ * Server-side stargate network built from the SDE
+ * Loaded once per process and shared by API routes that need gate routing
+ */
+
+import { loadAllRecords } from './sde-loader';
+import { buildGateGraph, type GateGraph } from './route-planner';
+import type { Region, SolarSystem, Stargate, StargateConnection } from './sde-types';
+
+export interface GateNetwork {
+  graph: GateGraph;
+  systems: Map<number, SolarSystem>;
+  regions: Map<number, Region>;
+  systemsByName: Map<string, SolarSystem>;
+}
+
+let cachedNetwork: Promise<GateNetwork> | null = null;
+
+async function buildGateNetwork(): Promise<GateNetwork> {
+  const [regions, systems, stargates] = await Promise.all([
+    loadAllRecords<Region>('mapRegions.jsonl'),
+    loadAllRecords<SolarSystem>('mapSolarSystems.jsonl'),
+    loadAllRecords<Stargate>('mapStargates.jsonl'),
+  ]);
+
+  const connections: StargateConnection[] = [];
+  for (const gate of stargates.values()) {
+    connections.push({ from: gate.solarSystemID, to: gate.destination.solarSystemID });
+  }
+
+  const systemsByName = new Map<string, SolarSystem>();
+  for (const system of systems.values()) {
+    systemsByName.set(system.name.en.toLowerCase(), system);
+  }
+
+  return {
+    graph: buildGateGraph(connections),
+    systems,
+    regions,
+    systemsByName,
+  };
+}
+
+/**
+ * Get the stargate network, loading it from the SDE on first use
+ */
+export function getGateNetwork(): Promise<GateNetwork> {
+  if (!cachedNetwork) {
+    cachedNetwork = buildGateNetwork().catch((error) => {
+      cachedNetwork = null;
+      throw error;
+    });
+  }
+  return cachedNetwork;
+}
+
+/**
+ * Resolve a system by numeric ID or by exact name (case-insensitive)
+ */
+export function resolveSystem(network: GateNetwork, value: string): SolarSystem | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return network.systems.get(parseInt(trimmed, 10)) ?? null;
+  }
+  return network.systemsByName.get(trimmed.toLowerCase()) ?? null;
+}
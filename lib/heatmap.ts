@@ -0,0 +1,54 @@
+/**
+ * Log-scale heatmap colors for activity color modes
+ * Activity is heavily skewed (a few trade hubs see thousands of jumps), so a linear scale would
+ * leave almost every system the same color
+ */
+
+/**
+ * Color for systems with no recorded activity
+ */
+export const HEATMAP_EMPTY_COLOR = 'hsl(0, 0%, 30%)';
+
+/**
+ * Legend positions closer to the maximum than this drop their label so it doesn't overlap the max
+ */
+const MIN_TICK_GAP = 0.15;
+
+/**
+ * Position of a count on the log scale, from 0 (none) to 1 (the maximum)
+ */
+export function getHeatmapPosition(value: number, max: number): number {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.min(1, Math.log10(1 + value) / Math.log10(1 + max));
+}
+
+/**
+ * Blue for quiet systems through yellow to red for the busiest
+ */
+export function getHeatmapColorAt(position: number): string {
+  const hue = 240 - position * 240;
+  const lightness = 40 + position * 15;
+  return `hsl(${hue}, 100%, ${lightness}%)`;
+}
+
+export function getHeatmapColor(value: number | undefined, max: number): string {
+  if (!value || value <= 0) return HEATMAP_EMPTY_COLOR;
+  return getHeatmapColorAt(getHeatmapPosition(value, max));
+}
+
+/**
+ * Legend labels: powers of ten up to the maximum, plus the maximum itself
+ */
+export function getHeatmapTicks(max: number): Array<{ value: number; position: number }> {
+  const ticks: Array<{ value: number; position: number }> = [];
+  for (let value = 1; value < max; value *= 10) {
+    const position = getHeatmapPosition(value, max);
+    if (1 - position >= MIN_TICK_GAP) {
+      ticks.push({ value, position });
+    }
+  }
+  if (max > 0) {
+    ticks.push({ value: max, position: 1 });
+  }
+  return ticks;
+}
@@ -0,0 +1,247 @@
+/**
+ * Capital jump drive range calculations using 3D system positions
+ */
+
+import { isHighSec } from './route-planner';
+import type { Position3D } from './sde-types';
+
+export const METERS_PER_LIGHT_YEAR = 9_460_730_472_580_800;
+
+/**
+ * Jump Drive Calibration adds 20% of the base range per level
+ */
+const JDC_BONUS_PER_LEVEL = 0.2;
+
+/**
+ * Jump fatigue caps, in minutes
+ */
+const MAX_FATIGUE_MINUTES = 300;
+const MAX_REACTIVATION_MINUTES = 30;
+
+export interface JumpShipClass {
+  id: string;
+  name: string;
+  baseRange: number;
+  fatigueReduction: number;
+}
+
+export const JUMP_SHIP_CLASSES: JumpShipClass[] = [
+  { id: 'carrier', name: 'Carrier', baseRange: 3.5, fatigueReduction: 0 },
+  { id: 'dreadnought', name: 'Dreadnought', baseRange: 3.5, fatigueReduction: 0 },
+  { id: 'fax', name: 'Force Auxiliary', baseRange: 3.5, fatigueReduction: 0 },
+  { id: 'supercarrier', name: 'Supercarrier', baseRange: 3.0, fatigueReduction: 0 },
+  { id: 'titan', name: 'Titan', baseRange: 3.0, fatigueReduction: 0 },
+  { id: 'blackops', name: 'Black Ops', baseRange: 4.0, fatigueReduction: 0.75 },
+  { id: 'jumpfreighter', name: 'Jump Freighter', baseRange: 5.0, fatigueReduction: 0.9 },
+  { id: 'rorqual', name: 'Rorqual', baseRange: 5.0, fatigueReduction: 0.9 },
+];
+
+export interface JumpSystemInfo {
+  _key: number;
+  position: Position3D;
+  securityStatus: number;
+}
+
+export interface JumpHop<T extends JumpSystemInfo = JumpSystemInfo> {
+  from: T;
+  to: T;
+  distance: number;
+}
+
+export interface JumpFatigueStep {
+  reactivationMinutes: number;
+  fatigueMinutes: number;
+  waitMinutes: number;
+}
+
+/**
+ * Maximum jump range in light-years for a base range and Jump Drive Calibration level
+ */
+export function getJumpRange(baseRange: number, jdcLevel: number): number {
+  return baseRange * (1 + JDC_BONUS_PER_LEVEL * jdcLevel);
+}
+
+/**
+ * Straight-line distance between two positions in light-years
+ */
+export function lightYearDistance(a: Position3D, b: Position3D): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz) / METERS_PER_LIGHT_YEAR;
+}
+
+/**
+ * Check whether a capital can jump into a system (jump drives cannot target high-sec)
+ */
+export function isValidJumpDestination(system: JumpSystemInfo): boolean {
+  return !isHighSec(system.securityStatus);
+}
+
+/**
+ * Find every valid destination within range of an origin system
+ * Results are sorted by distance, nearest first
+ */
+export function findSystemsInJumpRange<T extends JumpSystemInfo>(
+  systems: Iterable<T>,
+  origin: JumpSystemInfo,
+  rangeLy: number
+): Array<{ system: T; distance: number }> {
+  const reachable: Array<{ system: T; distance: number }> = [];
+
+  for (const system of systems) {
+    if (system._key === origin._key || !isValidJumpDestination(system)) continue;
+
+    const distance = lightYearDistance(origin.position, system.position);
+    if (distance <= rangeLy) {
+      reachable.push({ system, distance });
+    }
+  }
+
+  return reachable.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Spatial hash of systems into cubes one jump range wide
+ * Every system within range of a point lies in that point's cube or one of its 26 neighbours
+ */
+function buildRangeGrid<T extends JumpSystemInfo>(systems: T[], rangeMeters: number) {
+  const cells = new Map<string, T[]>();
+  const cellOf = (position: Position3D) => [
+    Math.floor(position.x / rangeMeters),
+    Math.floor(position.y / rangeMeters),
+    Math.floor(position.z / rangeMeters),
+  ];
+
+  for (const system of systems) {
+    const key = cellOf(system.position).join(',');
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(system);
+    } else {
+      cells.set(key, [system]);
+    }
+  }
+
+  return (position: Position3D): T[] => {
+    const [cx, cy, cz] = cellOf(position);
+    const nearby: T[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const cell = cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+          if (cell) nearby.push(...cell);
+        }
+      }
+    }
+    return nearby;
+  };
+}
+
+/**
+ * Find the chain of capital jumps with the fewest jumps between two systems
+ * Ties are broken by the shortest total distance, which keeps fatigue low
+ * Returns the hops in order, or null if the destination cannot be reached
+ */
+export function findJumpRoute<T extends JumpSystemInfo>(
+  systems: Iterable<T>,
+  origin: T,
+  destination: T,
+  rangeLy: number
+): JumpHop<T>[] | null {
+  if (origin._key === destination._key) {
+    return [];
+  }
+  if (!isValidJumpDestination(destination) || rangeLy <= 0) {
+    return null;
+  }
+
+  const destinations = Array.from(systems).filter(isValidJumpDestination);
+  const nearbySystems = buildRangeGrid(destinations, rangeLy * METERS_PER_LIGHT_YEAR);
+
+  const best = new Map<number, { distance: number; previous: T | null }>([
+    [origin._key, { distance: 0, previous: null }],
+  ]);
+  let frontier: T[] = [origin];
+
+  while (frontier.length > 0 && !best.has(destination._key)) {
+    const layer = new Map<number, { system: T; distance: number; previous: T }>();
+
+    for (const current of frontier) {
+      const travelled = best.get(current._key)!.distance;
+
+      for (const candidate of nearbySystems(current.position)) {
+        if (best.has(candidate._key)) continue;
+
+        const distance = lightYearDistance(current.position, candidate.position);
+        if (distance > rangeLy) continue;
+
+        const known = layer.get(candidate._key);
+        if (!known || travelled + distance < known.distance) {
+          layer.set(candidate._key, {
+            system: candidate,
+            distance: travelled + distance,
+            previous: current,
+          });
+        }
+      }
+    }
+
+    frontier = [];
+    for (const [systemId, entry] of layer) {
+      best.set(systemId, { distance: entry.distance, previous: entry.previous });
+      frontier.push(entry.system);
+    }
+  }
+
+  if (!best.has(destination._key)) {
+    return null;
+  }
+
+  const hops: JumpHop<T>[] = [];
+  let step = destination;
+  while (step._key !== origin._key) {
+    const previous = best.get(step._key)!.previous!;
+    hops.push({
+      from: previous,
+      to: step,
+      distance: lightYearDistance(previous.position, step.position),
+    });
+    step = previous;
+  }
+
+  return hops.reverse();
+}
+
+/**
+ * Estimate jump fatigue for a chain of jumps taken as soon as each reactivation timer ends
+ * Fatigue decays in real time while waiting out the reactivation timer between jumps
+ */
+export function estimateJumpFatigue(
+  distances: number[],
+  fatigueReduction: number,
+  startingFatigueMinutes = 0
+): JumpFatigueStep[] {
+  const steps: JumpFatigueStep[] = [];
+  let fatigue = startingFatigueMinutes;
+
+  distances.forEach((distance, index) => {
+    const wait = index > 0 ? steps[index - 1].reactivationMinutes : 0;
+    fatigue = Math.max(0, fatigue - wait);
+
+    const effectiveDistance = distance * (1 - fatigueReduction);
+    const reactivation = Math.min(
+      MAX_REACTIVATION_MINUTES,
+      Math.max(1 + effectiveDistance, fatigue / 10)
+    );
+    fatigue = Math.min(MAX_FATIGUE_MINUTES, Math.max(fatigue, 10) * (1 + effectiveDistance));
+
+    steps.push({
+      reactivationMinutes: reactivation,
+      fatigueMinutes: fatigue,
+      waitMinutes: wait,
+    });
+  });
+
+  return steps;
+}
@@ -0,0 +1,211 @@
+/**
+ * Shareable StarMap view state encoded in URL query parameters
+ */
+
+import { parseSpaceTypes, type SpaceType } from './region-space';
+import type { RoutePreference } from './route-planner';
+
+export const COLOR_MODES = ['region', 'security', 'faction', 'alliance', 'jumps', 'kills'] as const;
+
+export type ColorMode = (typeof COLOR_MODES)[number];
+
+/**
+ * Kill counts the kills color mode can show
+ */
+export const KILL_TYPES = ['ship', 'pod', 'npc'] as const;
+
+export type KillType = (typeof KILL_TYPES)[number];
+
+/**
+ * Views of the faction color mode
+ */
+export const FW_VIEWS = ['ownership', 'contest', 'tiers'] as const;
+
+export type FactionWarfareView = (typeof FW_VIEWS)[number];
+
+/**
+ * Views of the alliance color mode
+ */
+export const ALLIANCE_VIEWS = ['ownership', 'adm'] as const;
+
+export type AllianceView = (typeof ALLIANCE_VIEWS)[number];
+
+const ROUTE_PREFERENCES: RoutePreference[] = ['shortest', 'secure', 'insecure'];
+
+export interface MapUrlState {
+  /** Screen center as a fraction of the map bounds (0-1 on each axis) */
+  camera?: { x: number; y: number; zoom: number };
+  colorMode?: ColorMode;
+  killType?: KillType;
+  fwView?: FactionWarfareView;
+  allianceView?: AllianceView;
+  /** Kinds of space to load, server default when omitted */
+  space?: SpaceType[];
+  selectedSystemId?: number;
+  route?: {
+    originId: number;
+    destinationId: number | null;
+    waypointIds: number[];
+    preference: RoutePreference;
+    optimize: boolean;
+  };
+  jump?: {
+    originId: number;
+    destinationId: number | null;
+    shipClassId: string;
+    jdcLevel: number;
+    customRange: number;
+  };
+}
+
+function parseId(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Read map view state from query parameters, ignoring anything malformed
+ */
+export function parseMapUrlState(params: URLSearchParams): MapUrlState {
+  const state: MapUrlState = {};
+
+  const x = parseNumber(params.get('x'));
+  const y = parseNumber(params.get('y'));
+  const zoom = parseNumber(params.get('zoom'));
+  if (x !== null && y !== null && zoom !== null && zoom > 0) {
+    state.camera = { x, y, zoom };
+  }
+
+  const color = params.get('color');
+  if (color && (COLOR_MODES as readonly string[]).includes(color)) {
+    state.colorMode = color as ColorMode;
+  }
+
+  const killType = params.get('kills');
+  if (killType && (KILL_TYPES as readonly string[]).includes(killType)) {
+    state.killType = killType as KillType;
+  }
+
+  const fwView = params.get('fw');
+  if (fwView && (FW_VIEWS as readonly string[]).includes(fwView)) {
+    state.fwView = fwView as FactionWarfareView;
+  }
+
+  const allianceView = params.get('sov');
+  if (allianceView && (ALLIANCE_VIEWS as readonly string[]).includes(allianceView)) {
+    state.allianceView = allianceView as AllianceView;
+  }
+
+  const space = parseSpaceTypes(params.get('space'));
+  if (space) {
+    state.space = space;
+  }
+
+  const systemId = parseId(params.get('system'));
+  if (systemId !== null) {
+    state.selectedSystemId = systemId;
+  }
+
+  const routeOriginId = parseId(params.get('from'));
+  if (routeOriginId !== null) {
+    const preference = params.get('pref') as RoutePreference | null;
+    state.route = {
+      originId: routeOriginId,
+      destinationId: parseId(params.get('to')),
+      waypointIds: (params.get('via') || '')
+        .split(',')
+        .map(parseId)
+        .filter((id): id is number => id !== null),
+      preference: preference && ROUTE_PREFERENCES.includes(preference) ? preference : 'shortest',
+      optimize: params.get('opt') !== '0',
+    };
+  }
+
+  const jumpOriginId = parseId(params.get('jfrom'));
+  if (jumpOriginId !== null) {
+    const jdcLevel = parseId(params.get('jdc'));
+    const customRange = parseNumber(params.get('range'));
+    state.jump = {
+      originId: jumpOriginId,
+      destinationId: parseId(params.get('jto')),
+      shipClassId: params.get('ship') || 'carrier',
+      jdcLevel: jdcLevel !== null ? Math.min(5, jdcLevel) : 5,
+      customRange: customRange !== null && customRange > 0 ? customRange : 5,
+    };
+  }
+
+  return state;
+}
+
+/**
+ * Encode map view state as query parameters, omitting defaults to keep links short
+ */
+export function serializeMapUrlState(state: MapUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (state.camera) {
+    params.set('x', state.camera.x.toFixed(4));
+    params.set('y', state.camera.y.toFixed(4));
+    params.set('zoom', state.camera.zoom.toFixed(2));
+  }
+
+  if (state.colorMode && state.colorMode !== 'region') {
+    params.set('color', state.colorMode);
+  }
+
+  if (state.colorMode === 'kills' && state.killType && state.killType !== 'ship') {
+    params.set('kills', state.killType);
+  }
+
+  if (state.colorMode === 'faction' && state.fwView && state.fwView !== 'ownership') {
+    params.set('fw', state.fwView);
+  }
+
+  if (state.colorMode === 'alliance' && state.allianceView && state.allianceView !== 'ownership') {
+    params.set('sov', state.allianceView);
+  }
+
+  if (state.space) {
+    params.set('space', state.space.join(','));
+  }
+
+  if (state.selectedSystemId !== undefined) {
+    params.set('system', String(state.selectedSystemId));
+  }
+
+  if (state.route) {
+    params.set('from', String(state.route.originId));
+    if (state.route.destinationId !== null) {
+      params.set('to', String(state.route.destinationId));
+    }
+    if (state.route.waypointIds.length > 0) {
+      params.set('via', state.route.waypointIds.join(','));
+    }
+    if (state.route.preference !== 'shortest') {
+      params.set('pref', state.route.preference);
+    }
+    if (!state.route.optimize) {
+      params.set('opt', '0');
+    }
+  }
+
+  if (state.jump) {
+    params.set('jfrom', String(state.jump.originId));
+    if (state.jump.destinationId !== null) {
+      params.set('jto', String(state.jump.destinationId));
+    }
+    params.set('ship', state.jump.shipClassId);
+    params.set('jdc', String(state.jump.jdcLevel));
+    if (state.jump.shipClassId === 'custom') {
+      params.set('range', String(state.jump.customRange));
+    }
+  }
+
+  return params;
+}
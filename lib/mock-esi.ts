@@ -0,0 +1,240 @@
+/**
+ * Stand-in ESI server for offline development and CI
+ * Serves fixture JSON for the endpoints the app uses, with ESI's caching and error-limit headers,
+ * and can inject latency and errors to exercise retries, the circuit breaker and stale data
+ */
+
+import { createHash } from 'crypto';
+import { readFile, stat } from 'fs/promises';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { join } from 'path';
+
+export const MOCK_ESI_FIXTURES_PATH = join(process.cwd(), 'fixtures', 'esi');
+
+export interface MockESIOptions {
+  fixturesDir: string;
+  /** Delay added to every response, in milliseconds */
+  latency: number;
+  /** Fraction of requests (0-1) answered with errorStatus */
+  errorRate: number;
+  errorStatus: number;
+  /** Override each endpoint's cache time, in seconds */
+  expiresSeconds: number | null;
+  /** Errors allowed per error-limit window before answering 420 */
+  errorLimit: number;
+}
+
+export const DEFAULT_MOCK_ESI_OPTIONS: MockESIOptions = {
+  fixturesDir: MOCK_ESI_FIXTURES_PATH,
+  latency: 0,
+  errorRate: 0,
+  errorStatus: 503,
+  expiresSeconds: null,
+  errorLimit: 100,
+};
+
+/**
+ * Options that can be changed on a running server, i.e. everything but the fixture directory
+ */
+export type MockESIRuntimeOptions = Omit<MockESIOptions, 'fixturesDir'>;
+
+function isNumberInRange(value: unknown, min: number, max = Number.MAX_SAFE_INTEGER): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+const RUNTIME_OPTION_CHECKS: Record<keyof MockESIRuntimeOptions, (value: unknown) => boolean> = {
+  latency: (value) => isNumberInRange(value, 0),
+  errorRate: (value) => isNumberInRange(value, 0, 1),
+  errorStatus: (value) => Number.isInteger(value) && isNumberInRange(value, 400, 599),
+  expiresSeconds: (value) => value === null || isNumberInRange(value, 0),
+  errorLimit: (value) => Number.isInteger(value) && isNumberInRange(value, 0),
+};
+
+/**
+ * Check runtime options, e.g. a /_mock/config body, against the fields and values they may hold
+ * Returns the options, or an error message naming the first unknown or invalid field
+ */
+export function parseMockESIRuntimeOptions(
+  value: unknown
+): Partial<MockESIRuntimeOptions> | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Expected an object of options';
+  }
+
+  for (const [key, option] of Object.entries(value)) {
+    if (!Object.hasOwn(RUNTIME_OPTION_CHECKS, key)) {
+      return `Unknown option: ${key}`;
+    }
+    if (!RUNTIME_OPTION_CHECKS[key as keyof MockESIRuntimeOptions](option)) {
+      return `Invalid value for ${key}`;
+    }
+  }
+  return value as Partial<MockESIRuntimeOptions>;
+}
+
+function getRuntimeOptions({ fixturesDir: _, ...options }: MockESIOptions): MockESIRuntimeOptions {
+  return options;
+}
+
+/**
+ * GET endpoints served from a fixture file, with ESI's cache time for each
+ */
+const FIXTURE_ENDPOINTS: Record<string, { file: string; cacheSeconds: number }> = {
+  '/fw/systems/': { file: 'fw-systems.json', cacheSeconds: 1800 },
+  '/sovereignty/campaigns/': { file: 'sovereignty-campaigns.json', cacheSeconds: 5 },
+  '/sovereignty/map/': { file: 'sovereignty-map.json', cacheSeconds: 3600 },
+  '/sovereignty/structures/': { file: 'sovereignty-structures.json', cacheSeconds: 120 },
+  '/universe/system_jumps/': { file: 'system-jumps.json', cacheSeconds: 3600 },
+  '/universe/system_kills/': { file: 'system-kills.json', cacheSeconds: 3600 },
+};
+
+const ERROR_LIMIT_WINDOW = 60 * 1000;
+
+/**
+ * Strip the version segment so both /latest/fw/systems/ and /fw/systems/ match
+ */
+function getEndpoint(url: string): string {
+  const path = new URL(url, 'http://localhost').pathname.replace(
+    /^\/(latest|legacy|dev|v\d+)\//,
+    '/'
+  );
+  return path.endsWith('/') ? path : `${path}/`;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createMockESIServer(overrides: Partial<MockESIOptions> = {}): Server {
+  const options: MockESIOptions = { ...DEFAULT_MOCK_ESI_OPTIONS, ...overrides };
+  let errorsLeft = options.errorLimit;
+  let windowResetAt = Date.now() + ERROR_LIMIT_WINDOW;
+
+  const send = (
+    response: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    if (Date.now() >= windowResetAt) {
+      errorsLeft = options.errorLimit;
+      windowResetAt = Date.now() + ERROR_LIMIT_WINDOW;
+    }
+    if (status >= 400 && status !== 420) {
+      errorsLeft = Math.max(0, errorsLeft - 1);
+    }
+
+    response.writeHead(status, {
+      'Content-Type': 'application/json; charset=UTF-8',
+      'X-ESI-Error-Limit-Remain': String(errorsLeft),
+      'X-ESI-Error-Limit-Reset': String(Math.ceil((windowResetAt - Date.now()) / 1000)),
+      ...headers,
+    });
+    response.end(status === 304 ? undefined : JSON.stringify(body));
+  };
+
+  const serveFixture = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    fixture: { file: string; cacheSeconds: number }
+  ) => {
+    const path = join(options.fixturesDir, fixture.file);
+    const [content, info] = await Promise.all([readFile(path, 'utf-8'), stat(path)]);
+    const etag = `"${createHash('sha1').update(content).digest('hex')}"`;
+    const cacheSeconds = options.expiresSeconds ?? fixture.cacheSeconds;
+    const headers = {
+      ETag: etag,
+      'Last-Modified': info.mtime.toUTCString(),
+      Expires: new Date(Date.now() + cacheSeconds * 1000).toUTCString(),
+    };
+
+    if (request.headers['if-none-match'] === etag) {
+      send(response, 304, null, headers);
+    } else {
+      send(response, 200, JSON.parse(content), headers);
+    }
+  };
+
+  const resolveNames = async (request: IncomingMessage, response: ServerResponse) => {
+    const ids: unknown = JSON.parse((await readBody(request)) || '[]');
+    const names: Array<{ category: string; id: number; name: string }> = JSON.parse(
+      await readFile(join(options.fixturesDir, 'names.json'), 'utf-8')
+    );
+    const byId = new Map(names.map((entry) => [entry.id, entry]));
+
+    if (!Array.isArray(ids) || ids.some((id) => !byId.has(id))) {
+      send(response, 404, { error: 'Ensure all IDs are valid before resolving.' });
+      return;
+    }
+    send(
+      response,
+      200,
+      ids.map((id) => byId.get(id))
+    );
+  };
+
+  return createServer(async (request, response) => {
+    try {
+      const endpoint = getEndpoint(request.url ?? '/');
+
+      // Runtime control, so a test can start an outage against a running server
+      if (endpoint === '/_mock/config/') {
+        if (request.method === 'POST') {
+          let body: unknown;
+          try {
+            body = JSON.parse((await readBody(request)) || '{}');
+          } catch {
+            body = null;
+          }
+          const changes = parseMockESIRuntimeOptions(body);
+          if (typeof changes === 'string') {
+            send(response, 400, { error: changes });
+            return;
+          }
+          Object.assign(options, changes);
+          if (changes.errorLimit !== undefined) {
+            errorsLeft = options.errorLimit;
+            windowResetAt = Date.now() + ERROR_LIMIT_WINDOW;
+          }
+        }
+        send(response, 200, getRuntimeOptions(options));
+        return;
+      }
+
+      if (options.latency > 0) {
+        await sleep(options.latency);
+      }
+
+      if (errorsLeft === 0 && Date.now() < windowResetAt) {
+        send(response, 420, { error: 'This software has exceeded the error limit for ESI.' });
+        return;
+      }
+
+      if (Math.random() < options.errorRate) {
+        send(response, options.errorStatus, { error: 'Simulated ESI error' });
+        return;
+      }
+
+      const fixture = FIXTURE_ENDPOINTS[endpoint];
+      if (fixture && request.method === 'GET') {
+        await serveFixture(request, response, fixture);
+      } else if (endpoint === '/universe/names/' && request.method === 'POST') {
+        await resolveNames(request, response);
+      } else {
+        send(response, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      console.error('Mock ESI error:', error);
+      send(response, 500, { error: 'Internal server error' });
+    }
+  });
+}
@@ -0,0 +1,102 @@
+/**
+ * Public Thera and Turnur wormhole connections from a community feed
+ * The feed is read through an adapter so another source or a local fixture can stand in for EVE-Scout
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { USER_AGENT } from './esi-agent';
+import type { PublicWormholeConnection } from './sde-types';
+
+export interface PublicWormholeAdapter {
+  id: string;
+  fetchConnections(): Promise<PublicWormholeConnection[]>;
+}
+
+/**
+ * Signature record in the EVE-Scout v2 public API format
+ */
+interface EveScoutSignature {
+  id: string;
+  signature_type: string;
+  out_system_id: number;
+  in_system_id: number;
+  wh_type?: string | null;
+  max_ship_size?: string | null;
+  expires_at?: string | null;
+  created_at?: string | null;
+}
+
+const EVE_SCOUT_URL = 'https://api.eve-scout.com/v2/public/signatures';
+
+/**
+ * Local stand-in for the EVE-Scout feed, in the same format
+ */
+export const PUBLIC_WORMHOLE_FIXTURE_PATH =
+  process.env.PUBLIC_WORMHOLE_FIXTURE ||
+  join(process.cwd(), 'fixtures', 'eve-scout-signatures.json');
+
+function fromEveScoutSignatures(signatures: EveScoutSignature[]): PublicWormholeConnection[] {
+  return signatures
+    .filter((signature) => signature.signature_type === 'wormhole')
+    .map((signature) => ({
+      id: `eve-scout:${signature.id}`,
+      hubSystemId: signature.out_system_id,
+      systemId: signature.in_system_id,
+      type: signature.wh_type || null,
+      maxShipSize: signature.max_ship_size || null,
+      expiresAt: signature.expires_at || null,
+    }));
+}
+
+export const eveScoutAdapter: PublicWormholeAdapter = {
+  id: 'eve-scout',
+  async fetchConnections() {
+    const response = await fetch(EVE_SCOUT_URL, {
+      headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`EVE-Scout request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return fromEveScoutSignatures(await response.json());
+  },
+};
+
+/**
+ * Reads the fixture file and shifts its timestamps so the newest signature was created just now,
+ * keeping the connections alive however old the fixture is
+ */
+export const fixtureAdapter: PublicWormholeAdapter = {
+  id: 'fixture',
+  async fetchConnections() {
+    const signatures: EveScoutSignature[] = JSON.parse(
+      await readFile(PUBLIC_WORMHOLE_FIXTURE_PATH, 'utf-8')
+    );
+
+    const createdTimes = signatures
+      .map((signature) => Date.parse(signature.created_at ?? ''))
+      .filter((time) => !Number.isNaN(time));
+    const offset = createdTimes.length > 0 ? Date.now() - Math.max(...createdTimes) : 0;
+
+    return fromEveScoutSignatures(
+      signatures.map((signature) => ({
+        ...signature,
+        expires_at: signature.expires_at
+          ? new Date(Date.parse(signature.expires_at) + offset).toISOString()
+          : null,
+      }))
+    );
+  },
+};
+
+const ADAPTERS: PublicWormholeAdapter[] = [eveScoutAdapter, fixtureAdapter];
+
+/**
+ * Adapter selected by PUBLIC_WORMHOLE_SOURCE, EVE-Scout by default
+ */
+export function getPublicWormholeAdapter(): PublicWormholeAdapter {
+  const source = process.env.PUBLIC_WORMHOLE_SOURCE;
+  return ADAPTERS.find((adapter) => adapter.id === source) ?? eveScoutAdapter;
+}
@@ -0,0 +1,84 @@
+/**
+ * Region classification by kind of space, derived from SDE region data
+ * Lets the map choose what to load without a hard-coded region list
+ */
+
+import type { Region } from './sde-types';
+
+export const SPACE_TYPES = ['kspace', 'pochven', 'wspace', 'abyssal', 'void'] as const;
+
+export type SpaceType = (typeof SPACE_TYPES)[number];
+
+/**
+ * Space loaded when neither the request nor MAP_SPACE chooses
+ */
+export const DEFAULT_SPACE_TYPES: SpaceType[] = ['kspace', 'pochven'];
+
+const POCHVEN_WORMHOLE_CLASS_ID = 25;
+const TRIGLAVIAN_FACTION_ID = 500026;
+
+/**
+ * Wormhole classes of J-space regions: C1-C6, Thera (12), shattered (13) and drifter (14-18)
+ */
+const WSPACE_WORMHOLE_CLASS_IDS = new Set([1, 2, 3, 4, 5, 6, 12, 13, 14, 15, 16, 17, 18]);
+
+/**
+ * SDE region ID ranges, used when a region has no wormhole class
+ */
+const KSPACE_REGION_IDS = { min: 10000000, max: 10999999 };
+const WSPACE_REGION_IDS = { min: 11000000, max: 11999999 };
+const ABYSSAL_REGION_IDS = { min: 12000000, max: 12999999 };
+
+function inRange(id: number, range: { min: number; max: number }): boolean {
+  return id >= range.min && id <= range.max;
+}
+
+/**
+ * Classify a region as known space, Pochven, wormhole space, abyssal deadspace or void
+ * Void covers everything unreachable or unrecognized, such as developer regions
+ */
+export function classifyRegion(
+  region: Pick<Region, '_key' | 'wormholeClassID' | 'factionID'>
+): SpaceType {
+  if (
+    region.wormholeClassID === POCHVEN_WORMHOLE_CLASS_ID ||
+    (region.factionID === TRIGLAVIAN_FACTION_ID && inRange(region._key, KSPACE_REGION_IDS))
+  ) {
+    return 'pochven';
+  }
+  if (
+    (region.wormholeClassID !== undefined &&
+      WSPACE_WORMHOLE_CLASS_IDS.has(region.wormholeClassID)) ||
+    inRange(region._key, WSPACE_REGION_IDS)
+  ) {
+    return 'wspace';
+  }
+  if (inRange(region._key, ABYSSAL_REGION_IDS)) {
+    return 'abyssal';
+  }
+  if (inRange(region._key, KSPACE_REGION_IDS)) {
+    return 'kspace';
+  }
+  return 'void';
+}
+
+/**
+ * Parse a comma-separated list of space types, e.g. "kspace,wspace"
+ * Returns null when the list is empty or names an unknown space type
+ */
+export function parseSpaceTypes(value: string | null | undefined): SpaceType[] | null {
+  if (!value) return null;
+
+  const types = value
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+  if (
+    types.length === 0 ||
+    !types.every((type) => (SPACE_TYPES as readonly string[]).includes(type))
+  ) {
+    return null;
+  }
+
+  return SPACE_TYPES.filter((type) => types.includes(type));
+}
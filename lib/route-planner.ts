@@ -0,0 +1,424 @@
+/**
+ * Gate route planning over the stargate connection graph
+ */
+
+import type { StargateConnection } from './sde-types';
+
+export type GateGraph = Map<number, number[]>;
+
+export type RoutePreference = 'shortest' | 'secure' | 'insecure';
+
+export interface RouteSystemInfo {
+  securityStatus: number;
+  regionID: number;
+}
+
+export interface RouteOptions {
+  preference?: RoutePreference;
+  avoidSystemIds?: ReadonlySet<number>;
+  avoidRegionIds?: ReadonlySet<number>;
+}
+
+/**
+ * Cost of entering a system the preference tries to stay out of
+ * Large enough that any route within the preferred space wins regardless of length
+ */
+const SECURITY_PENALTY = 50000;
+
+/**
+ * Check whether a system counts as high-sec using EVE's displayed security rounding
+ */
+export function isHighSec(securityStatus: number): boolean {
+  const rounded =
+    securityStatus >= 0 && securityStatus <= 0.05
+      ? Math.ceil(securityStatus * 10) / 10
+      : Math.round(securityStatus * 10) / 10;
+  return rounded >= 0.5;
+}
+
+/**
+ * Build an undirected adjacency list from stargate connections
+ */
+export function buildGateGraph(connections: StargateConnection[]): GateGraph {
+  const graph: GateGraph = new Map();
+
+  const link = (from: number, to: number) => {
+    const neighbours = graph.get(from);
+    if (neighbours) {
+      if (!neighbours.includes(to)) {
+        neighbours.push(to);
+      }
+    } else {
+      graph.set(from, [to]);
+    }
+  };
+
+  for (const { from, to } of connections) {
+    link(from, to);
+    link(to, from);
+  }
+
+  return graph;
+}
+
+/**
+ * Binary min-heap keyed by route cost
+ */
+class CostQueue {
+  private items: Array<{ systemId: number; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(systemId: number, cost: number): void {
+    const items = this.items;
+    items.push({ systemId, cost });
+
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { systemId: number; cost: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+
+    if (items.length > 0 && last) {
+      items[0] = last;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
+
+/**
+ * Cost of jumping into a system under the given preference
+ */
+function getJumpCost(system: RouteSystemInfo | undefined, preference: RoutePreference): number {
+  if (preference === 'shortest' || !system) {
+    return 1;
+  }
+
+  const highSec = isHighSec(system.securityStatus);
+  if (preference === 'secure') {
+    return highSec ? 1 : SECURITY_PENALTY;
+  }
+  return highSec ? SECURITY_PENALTY : 1;
+}
+
+/**
+ * Dijkstra search from an origin, stopping early once the target is settled
+ * Systems in allowedEndpoints may be entered even if they are on the avoid list, but only to end a
+ * leg there: like findRoute, a route never passes through an avoided system on the way elsewhere
+ */
+function searchRoutes(
+  graph: GateGraph,
+  systems: ReadonlyMap<number, RouteSystemInfo>,
+  origin: number,
+  options: RouteOptions,
+  allowedEndpoints: ReadonlySet<number>,
+  target?: number
+): { costs: Map<number, number>; previous: Map<number, number> } {
+  const { preference = 'shortest', avoidSystemIds, avoidRegionIds } = options;
+
+  const isAvoided = (systemId: number) => {
+    if (avoidSystemIds?.has(systemId)) return true;
+
+    const regionId = systems.get(systemId)?.regionID;
+    return regionId !== undefined && !!avoidRegionIds?.has(regionId);
+  };
+
+  const costs = new Map<number, number>([[origin, 0]]);
+  const previous = new Map<number, number>();
+  const queue = new CostQueue();
+  queue.push(origin, 0);
+
+  while (queue.size > 0) {
+    const { systemId: current, cost } = queue.pop()!;
+
+    if (cost > costs.get(current)!) continue;
+    if (current === target) break;
+    if (current !== origin && isAvoided(current)) continue;
+
+    for (const next of graph.get(current) ?? []) {
+      if (isAvoided(next) && !allowedEndpoints.has(next)) continue;
+
+      const nextCost = cost + getJumpCost(systems.get(next), preference);
+      const knownCost = costs.get(next);
+
+      if (knownCost === undefined || nextCost < knownCost) {
+        costs.set(next, nextCost);
+        previous.set(next, current);
+        queue.push(next, nextCost);
+      }
+    }
+  }
+
+  return { costs, previous };
+}
+
+/**
+ * Find a gate route between two systems honoring route preferences
+ * Avoided systems and regions are never entered, except as the origin or destination
+ * Returns the ordered system IDs including origin and destination, or null if unreachable
+ */
+export function findRoute(
+  graph: GateGraph,
+  systems: ReadonlyMap<number, RouteSystemInfo>,
+  origin: number,
+  destination: number,
+  options: RouteOptions = {}
+): number[] | null {
+  if (origin === destination) {
+    return [origin];
+  }
+
+  const { previous } = searchRoutes(
+    graph,
+    systems,
+    origin,
+    options,
+    new Set([origin, destination]),
+    destination
+  );
+
+  if (!previous.has(destination)) {
+    return null;
+  }
+
+  const route = [destination];
+  let step = destination;
+  while (step !== origin) {
+    step = previous.get(step)!;
+    route.push(step);
+  }
+  return route.reverse();
+}
+
+/**
+ * Find a gate route that visits each stop in the given order
+ * Returns the full ordered system IDs, or null if any leg is unreachable
+ */
+export function findRouteThrough(
+  graph: GateGraph,
+  systems: ReadonlyMap<number, RouteSystemInfo>,
+  stops: number[],
+  options: RouteOptions = {}
+): number[] | null {
+  if (stops.length === 0) {
+    return null;
+  }
+
+  const route = [stops[0]];
+
+  for (let i = 1; i < stops.length; i++) {
+    const leg = findRoute(graph, systems, stops[i - 1], stops[i], options);
+    if (!leg) return null;
+
+    route.push(...leg.slice(1));
+  }
+
+  return route;
+}
+
+/**
+ * Largest waypoint count solved exactly; larger sets fall back to a heuristic
+ */
+const MAX_EXACT_WAYPOINTS = 16;
+
+/**
+ * Total cost of visiting waypoints in an order, Infinity when a leg is unreachable
+ */
+function getOrderCost(
+  order: number[],
+  fromStart: number[],
+  between: number[][],
+  toEnd: number[] | null
+): number {
+  let cost = fromStart[order[0]];
+  for (let i = 1; i < order.length; i++) {
+    cost += between[order[i - 1]][order[i]];
+  }
+  return cost + (toEnd ? toEnd[order[order.length - 1]] : 0);
+}
+
+/**
+ * Exact visiting order by dynamic programming over waypoint subsets (Held-Karp)
+ */
+function solveExactOrder(
+  fromStart: number[],
+  between: number[][],
+  toEnd: number[] | null
+): number[] {
+  const count = fromStart.length;
+  const fullMask = (1 << count) - 1;
+  const best = new Float64Array((fullMask + 1) * count).fill(Infinity);
+  const parent = new Int8Array((fullMask + 1) * count).fill(-1);
+
+  for (let j = 0; j < count; j++) {
+    best[(1 << j) * count + j] = fromStart[j];
+  }
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let j = 0; j < count; j++) {
+      const cost = best[mask * count + j];
+      if (!(mask & (1 << j)) || cost === Infinity) continue;
+
+      for (let k = 0; k < count; k++) {
+        if (mask & (1 << k)) continue;
+
+        const nextMask = mask | (1 << k);
+        const nextCost = cost + between[j][k];
+        if (nextCost < best[nextMask * count + k]) {
+          best[nextMask * count + k] = nextCost;
+          parent[nextMask * count + k] = j;
+        }
+      }
+    }
+  }
+
+  let last = 0;
+  let lastCost = Infinity;
+  for (let j = 0; j < count; j++) {
+    const cost = best[fullMask * count + j] + (toEnd ? toEnd[j] : 0);
+    if (cost < lastCost) {
+      lastCost = cost;
+      last = j;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = fullMask;
+  let current = last;
+  while (current !== -1) {
+    order.push(current);
+    const previous = parent[mask * count + current];
+    mask &= ~(1 << current);
+    current = previous;
+  }
+  return order.reverse();
+}
+
+/**
+ * Approximate visiting order using nearest neighbour followed by 2-opt improvement
+ */
+function solveApproximateOrder(
+  fromStart: number[],
+  between: number[][],
+  toEnd: number[] | null
+): number[] {
+  const count = fromStart.length;
+  const visited = new Set<number>();
+  const order: number[] = [];
+
+  let current = -1;
+  while (order.length < count) {
+    let next = -1;
+    let nextCost = Infinity;
+    for (let k = 0; k < count; k++) {
+      if (visited.has(k)) continue;
+      const cost = current === -1 ? fromStart[k] : between[current][k];
+      if (next === -1 || cost < nextCost) {
+        next = k;
+        nextCost = cost;
+      }
+    }
+    visited.add(next);
+    order.push(next);
+    current = next;
+  }
+
+  const tourCost = (tour: number[]) => getOrderCost(tour, fromStart, between, toEnd);
+
+  let bestCost = tourCost(order);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < count - 1; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, j + 1).reverse(),
+          ...order.slice(j + 1),
+        ];
+        const candidateCost = tourCost(candidate);
+        if (candidateCost < bestCost) {
+          order.splice(0, count, ...candidate);
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Reorder waypoints into the visiting order with the lowest total route cost
+ * The start is fixed; when an end is given the route must finish there
+ * Returns the ordered stops including start and end, or null if a waypoint is unreachable
+ */
+export function optimizeWaypointOrder(
+  graph: GateGraph,
+  systems: ReadonlyMap<number, RouteSystemInfo>,
+  start: number,
+  waypoints: number[],
+  end: number | null,
+  options: RouteOptions = {}
+): number[] | null {
+  const uniqueWaypoints = Array.from(new Set(waypoints)).filter((id) => id !== start && id !== end);
+  const tail = end !== null ? [end] : [];
+
+  if (uniqueWaypoints.length === 0) {
+    return [start, ...tail];
+  }
+
+  // Avoided stops can only be reached as a leg's destination, so a stop may be reachable only
+  // by way of another one, and unreachable pairs are left to the order search
+  const endpoints = new Set([start, ...uniqueWaypoints, ...tail]);
+  const costsFrom = (origin: number) =>
+    searchRoutes(graph, systems, origin, options, endpoints).costs;
+  const costTo = (costs: Map<number, number>, id: number) => costs.get(id) ?? Infinity;
+
+  const startCosts = costsFrom(start);
+  const waypointCosts = uniqueWaypoints.map(costsFrom);
+
+  const fromStart = uniqueWaypoints.map((id) => costTo(startCosts, id));
+  const between = waypointCosts.map((costs) => uniqueWaypoints.map((id) => costTo(costs, id)));
+  const toEnd = end !== null ? waypointCosts.map((costs) => costTo(costs, end)) : null;
+
+  const order =
+    uniqueWaypoints.length <= MAX_EXACT_WAYPOINTS
+      ? solveExactOrder(fromStart, between, toEnd)
+      : solveApproximateOrder(fromStart, between, toEnd);
+
+  if (
+    order.length < uniqueWaypoints.length ||
+    getOrderCost(order, fromStart, between, toEnd) === Infinity
+  ) {
+    return null;
+  }
+
+  return [start, ...order.map((index) => uniqueWaypoints[index]), ...tail];
+}
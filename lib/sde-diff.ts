@@ -0,0 +1,305 @@
+/**
+ * Changelog between two SDE releases
+ * Compares regions, systems, stargate connections and stations by ID
+ */
+
+import { join } from 'path';
+import {
+  getSDEMetadata,
+  loadAllRecords,
+  loadAllRecordsFromDirectory,
+  readSDEBuildInfo,
+  type SDERecord,
+} from './sde-loader';
+import type {
+  Region,
+  SDEBuildInfo,
+  SDEDiffResponse,
+  SDEStationRef,
+  SDESystemRef,
+  SolarSystem,
+  Stargate,
+  Station,
+} from './sde-types';
+
+/**
+ * Directory holding older SDE releases, one subdirectory of JSONL files per release
+ */
+export const SDE_RELEASES_PATH =
+  process.env.SDE_RELEASES_PATH || join(process.cwd(), 'data', 'sde-releases');
+
+/**
+ * Security changes smaller than this are float noise, not balance changes
+ */
+const SECURITY_EPSILON = 1e-6;
+
+/**
+ * An SDE to compare: a directory of JSONL files, or the SDE the app is serving when omitted
+ */
+export interface SDESource {
+  label: string;
+  directory?: string;
+}
+
+interface SDESnapshot {
+  build: SDEBuildInfo | null;
+  regions: Map<number, Region>;
+  systems: Map<number, SolarSystem>;
+  stargates: Map<number, Stargate>;
+  stations: Map<number, Station>;
+}
+
+/**
+ * Resolve a release name to its directory under SDE_RELEASES_PATH
+ * Returns null for names that could escape the releases directory
+ */
+export function resolveSDERelease(name: string): string | null {
+  if (!/^[\w.-]+$/.test(name) || /^\.+$/.test(name)) {
+    return null;
+  }
+  return join(SDE_RELEASES_PATH, name);
+}
+
+async function loadSnapshot(source: SDESource): Promise<SDESnapshot> {
+  const { directory } = source;
+  const load = <T extends SDERecord>(filename: string) =>
+    directory ? loadAllRecordsFromDirectory<T>(directory, filename) : loadAllRecords<T>(filename);
+
+  const [build, regions, systems, stargates, stations] = await Promise.all([
+    directory ? readSDEBuildInfo(directory) : getSDEMetadata().then((meta) => meta.build),
+    load<Region>('mapRegions.jsonl'),
+    load<SolarSystem>('mapSolarSystems.jsonl'),
+    load<Stargate>('mapStargates.jsonl'),
+    load<Station>('npcStations.jsonl'),
+  ]);
+
+  return { build, regions, systems, stargates, stations };
+}
+
+function toSystemRef(snapshot: SDESnapshot, systemId: number): SDESystemRef {
+  const system = snapshot.systems.get(systemId);
+  const regionId = system?.regionID ?? 0;
+
+  return {
+    systemId,
+    name: system?.name.en ?? String(systemId),
+    regionId,
+    regionName: snapshot.regions.get(regionId)?.name.en ?? 'Unknown',
+  };
+}
+
+function toStationRef(snapshot: SDESnapshot, station: Station): SDEStationRef {
+  return {
+    stationId: station._key,
+    typeId: station.typeID,
+    corporationId: station.ownerID ?? station.corporationID ?? null,
+    system: toSystemRef(snapshot, station.solarSystemID),
+  };
+}
+
+/**
+ * Undirected system pairs linked by at least one stargate, keyed "low-high"
+ */
+function getConnectionKeys(snapshot: SDESnapshot): Set<string> {
+  const keys = new Set<string>();
+  for (const gate of snapshot.stargates.values()) {
+    const from = gate.solarSystemID;
+    const to = gate.destination.solarSystemID;
+    keys.add(from < to ? `${from}-${to}` : `${to}-${from}`);
+  }
+  return keys;
+}
+
+function compareSystems(a: SDESystemRef, b: SDESystemRef): number {
+  return a.regionName.localeCompare(b.regionName) || a.name.localeCompare(b.name);
+}
+
+/**
+ * Compare two SDE releases
+ */
+export async function diffSDE(from: SDESource, to: SDESource): Promise<SDEDiffResponse> {
+  const [before, after] = await Promise.all([loadSnapshot(from), loadSnapshot(to)]);
+
+  const diff: SDEDiffResponse = {
+    from: { label: from.label, build: before.build },
+    to: { label: to.label, build: after.build },
+    regions: { added: [], removed: [], renamed: [] },
+    systems: { added: [], removed: [], renamed: [], securityChanged: [], moved: [] },
+    stargates: { added: [], removed: [] },
+    stations: { added: [], removed: [] },
+  };
+
+  for (const [regionId, region] of after.regions) {
+    const previous = before.regions.get(regionId);
+    if (!previous) {
+      diff.regions.added.push({ regionId, name: region.name.en });
+    } else if (previous.name.en !== region.name.en) {
+      diff.regions.renamed.push({ regionId, name: region.name.en, oldName: previous.name.en });
+    }
+  }
+  for (const [regionId, region] of before.regions) {
+    if (!after.regions.has(regionId)) {
+      diff.regions.removed.push({ regionId, name: region.name.en });
+    }
+  }
+
+  for (const [systemId, system] of after.systems) {
+    const previous = before.systems.get(systemId);
+    const ref = toSystemRef(after, systemId);
+
+    if (!previous) {
+      diff.systems.added.push(ref);
+      continue;
+    }
+
+    if (previous.name.en !== system.name.en) {
+      diff.systems.renamed.push({ ...ref, oldName: previous.name.en });
+    }
+    if (Math.abs(previous.securityStatus - system.securityStatus) > SECURITY_EPSILON) {
+      diff.systems.securityChanged.push({
+        ...ref,
+        oldSecurity: previous.securityStatus,
+        newSecurity: system.securityStatus,
+      });
+    }
+    if (
+      previous.regionID !== system.regionID ||
+      previous.constellationID !== system.constellationID
+    ) {
+      const previousRef = toSystemRef(before, systemId);
+      diff.systems.moved.push({
+        ...ref,
+        oldRegionId: previousRef.regionId,
+        oldRegionName: previousRef.regionName,
+        oldConstellationId: previous.constellationID,
+        constellationId: system.constellationID,
+      });
+    }
+  }
+  for (const systemId of before.systems.keys()) {
+    if (!after.systems.has(systemId)) {
+      diff.systems.removed.push(toSystemRef(before, systemId));
+    }
+  }
+
+  const beforeConnections = getConnectionKeys(before);
+  const afterConnections = getConnectionKeys(after);
+  for (const key of afterConnections) {
+    if (!beforeConnections.has(key)) {
+      const [fromId, toId] = key.split('-').map(Number);
+      diff.stargates.added.push({ from: toSystemRef(after, fromId), to: toSystemRef(after, toId) });
+    }
+  }
+  for (const key of beforeConnections) {
+    if (!afterConnections.has(key)) {
+      const [fromId, toId] = key.split('-').map(Number);
+      diff.stargates.removed.push({
+        from: toSystemRef(before, fromId),
+        to: toSystemRef(before, toId),
+      });
+    }
+  }
+
+  for (const [stationId, station] of after.stations) {
+    if (!before.stations.has(stationId)) {
+      diff.stations.added.push(toStationRef(after, station));
+    }
+  }
+  for (const [stationId, station] of before.stations) {
+    if (!after.stations.has(stationId)) {
+      diff.stations.removed.push(toStationRef(before, station));
+    }
+  }
+
+  diff.regions.added.sort((a, b) => a.name.localeCompare(b.name));
+  diff.regions.removed.sort((a, b) => a.name.localeCompare(b.name));
+  diff.regions.renamed.sort((a, b) => a.name.localeCompare(b.name));
+  diff.systems.added.sort(compareSystems);
+  diff.systems.removed.sort(compareSystems);
+  diff.systems.renamed.sort(compareSystems);
+  diff.systems.securityChanged.sort(compareSystems);
+  diff.systems.moved.sort(compareSystems);
+  diff.stargates.added.sort((a, b) => compareSystems(a.from, b.from));
+  diff.stargates.removed.sort((a, b) => compareSystems(a.from, b.from));
+  diff.stations.added.sort((a, b) => compareSystems(a.system, b.system));
+  diff.stations.removed.sort((a, b) => compareSystems(a.system, b.system));
+
+  return diff;
+}
+
+function formatBuild(label: string, build: SDEBuildInfo | null): string {
+  return build ? `${label} (build ${build.buildNumber})` : label;
+}
+
+function formatSystem(system: SDESystemRef): string {
+  return `${system.name} (${system.regionName})`;
+}
+
+/**
+ * Render a diff as a Markdown changelog
+ */
+export function formatSDEDiffMarkdown(diff: SDEDiffResponse): string {
+  const lines: string[] = [
+    `# SDE changes: ${formatBuild(diff.from.label, diff.from.build)} → ${formatBuild(diff.to.label, diff.to.build)}`,
+  ];
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push('', `## ${title} (${items.length})`, '', ...items.map((item) => `- ${item}`));
+  };
+
+  section(
+    'New regions',
+    diff.regions.added.map((r) => r.name)
+  );
+  section(
+    'Removed regions',
+    diff.regions.removed.map((r) => r.name)
+  );
+  section(
+    'Renamed regions',
+    diff.regions.renamed.map((r) => `${r.oldName} → ${r.name}`)
+  );
+  section('New systems', diff.systems.added.map(formatSystem));
+  section('Removed systems', diff.systems.removed.map(formatSystem));
+  section(
+    'Renamed systems',
+    diff.systems.renamed.map((s) => `${s.oldName} → ${formatSystem(s)}`)
+  );
+  section(
+    'Security status changes',
+    diff.systems.securityChanged.map(
+      (s) => `${formatSystem(s)}: ${s.oldSecurity.toFixed(3)} → ${s.newSecurity.toFixed(3)}`
+    )
+  );
+  section(
+    'Moved systems',
+    diff.systems.moved.map((s) =>
+      s.oldRegionId !== s.regionId
+        ? `${s.name}: ${s.oldRegionName} → ${s.regionName}`
+        : `${formatSystem(s)}: constellation ${s.oldConstellationId} → ${s.constellationId}`
+    )
+  );
+  section(
+    'New stargates',
+    diff.stargates.added.map((g) => `${formatSystem(g.from)} ↔ ${formatSystem(g.to)}`)
+  );
+  section(
+    'Removed stargates',
+    diff.stargates.removed.map((g) => `${formatSystem(g.from)} ↔ ${formatSystem(g.to)}`)
+  );
+  section(
+    'New stations',
+    diff.stations.added.map((s) => `${formatSystem(s.system)}: station ${s.stationId}`)
+  );
+  section(
+    'Removed stations',
+    diff.stations.removed.map((s) => `${formatSystem(s.system)}: station ${s.stationId}`)
+  );
+
+  if (lines.length === 1) {
+    lines.push('', 'No map changes.');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,258 @@
+/**
+ * Persistent byte-offset index for SDE JSONL files
+ * Lets lookups by key or foreign key read only the lines they need instead of scanning the file
+ */
+
+import { createReadStream } from 'fs';
+import { mkdir, open, readFile, stat, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+
+const INDEX_VERSION = 2;
+const SDE_INDEX_PATH = join(process.cwd(), '.sde-cache', 'index');
+
+/**
+ * Foreign keys indexed for every file that has them
+ */
+export const INDEXED_FIELDS = ['solarSystemID', 'constellationID', 'regionID'] as const;
+
+export type IndexedField = (typeof INDEXED_FIELDS)[number];
+
+/**
+ * Line positions and key lookups for one file, in a JSON-serializable shape
+ */
+export interface IndexData {
+  keys: Array<number | null>;
+  offsets: number[];
+  lengths: number[];
+  /** 1-based line of each record in the source JSONL, counting blank lines */
+  lines: number[];
+  fields: Record<string, Record<string, number[]>>;
+}
+
+interface SerializedIndex extends IndexData {
+  version: number;
+  size: number;
+  mtimeMs: number;
+}
+
+export interface SDEIndex {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+  offsets: number[];
+  lengths: number[];
+  lines: number[];
+  byKey: Map<number, number>;
+  byField: Map<string, Map<number, number[]>>;
+}
+
+const loadedIndexes = new Map<string, Promise<SDEIndex>>();
+
+function getIndexPath(filePath: string): string {
+  return join(SDE_INDEX_PATH, `${basename(filePath)}.idx.json`);
+}
+
+/**
+ * Create empty index data with a bucket for every indexed field
+ */
+export function createIndexData(): IndexData {
+  return {
+    keys: [],
+    offsets: [],
+    lengths: [],
+    lines: [],
+    fields: Object.fromEntries(INDEXED_FIELDS.map((field) => [field, {}])),
+  };
+}
+
+/**
+ * Record the position of a parsed line and its indexed fields
+ */
+export function addIndexEntry(
+  index: IndexData,
+  record: Record<string, unknown>,
+  offset: number,
+  length: number,
+  sourceLine: number
+): void {
+  const lineIndex = index.offsets.length;
+
+  index.keys.push(typeof record._key === 'number' ? record._key : null);
+  index.offsets.push(offset);
+  index.lengths.push(length);
+  index.lines.push(sourceLine);
+
+  for (const field of INDEXED_FIELDS) {
+    const value = record[field];
+    if (typeof value !== 'number') continue;
+
+    const lines = (index.fields[field][value] ??= []);
+    lines.push(lineIndex);
+  }
+}
+
+/**
+ * Turn index data into lookup maps
+ * baseOffset is added to every line offset, for files embedded in a larger container
+ */
+export function hydrateIndex(
+  data: IndexData,
+  filePath: string,
+  size: number,
+  mtimeMs: number,
+  baseOffset = 0
+): SDEIndex {
+  const byKey = new Map<number, number>();
+  data.keys.forEach((key, lineIndex) => {
+    if (key !== null) byKey.set(key, lineIndex);
+  });
+
+  const byField = new Map<string, Map<number, number[]>>();
+  for (const [field, values] of Object.entries(data.fields)) {
+    byField.set(
+      field,
+      new Map(Object.entries(values).map(([value, lines]) => [Number(value), lines]))
+    );
+  }
+
+  return {
+    filePath,
+    size,
+    mtimeMs,
+    offsets: baseOffset ? data.offsets.map((offset) => offset + baseOffset) : data.offsets,
+    lengths: data.lengths,
+    lines: data.lines,
+    byKey,
+    byField,
+  };
+}
+
+/**
+ * Scan a JSONL file once, recording the byte offset and length of every line
+ */
+async function buildSerializedIndex(
+  filePath: string,
+  size: number,
+  mtimeMs: number
+): Promise<SerializedIndex> {
+  const index: SerializedIndex = {
+    version: INDEX_VERSION,
+    size,
+    mtimeMs,
+    ...createIndexData(),
+  };
+
+  let lineNumber = 0;
+  const addLine = (line: Buffer, offset: number) => {
+    lineNumber++;
+    const text = line.toString('utf-8');
+    if (!text.trim()) return;
+
+    addIndexEntry(index, JSON.parse(text), offset, line.length, lineNumber);
+  };
+
+  let position = 0;
+  let lineStart = 0;
+  let pending: Buffer[] = [];
+
+  for await (const chunk of createReadStream(filePath) as AsyncIterable<Buffer>) {
+    let start = 0;
+
+    for (let newline = chunk.indexOf(10); newline !== -1; newline = chunk.indexOf(10, start)) {
+      const part = chunk.subarray(start, newline);
+      addLine(pending.length > 0 ? Buffer.concat([...pending, part]) : part, lineStart);
+
+      pending = [];
+      start = newline + 1;
+      lineStart = position + start;
+    }
+
+    if (start < chunk.length) {
+      pending.push(chunk.subarray(start));
+    }
+    position += chunk.length;
+  }
+
+  if (pending.length > 0) {
+    addLine(Buffer.concat(pending), lineStart);
+  }
+
+  return index;
+}
+
+async function readSerializedIndex(
+  filePath: string,
+  size: number,
+  mtimeMs: number
+): Promise<SerializedIndex | null> {
+  try {
+    const index = JSON.parse(await readFile(getIndexPath(filePath), 'utf-8')) as SerializedIndex;
+    if (index.version === INDEX_VERSION && index.size === size && index.mtimeMs === mtimeMs) {
+      return index;
+    }
+  } catch {
+    // Missing or unreadable index, rebuild below
+  }
+  return null;
+}
+
+async function writeSerializedIndex(filePath: string, index: SerializedIndex): Promise<void> {
+  try {
+    await mkdir(SDE_INDEX_PATH, { recursive: true });
+    await writeFile(getIndexPath(filePath), JSON.stringify(index));
+  } catch (error) {
+    console.warn(`Could not persist SDE index for ${basename(filePath)}:`, error);
+  }
+}
+
+async function loadIndex(filePath: string, size: number, mtimeMs: number): Promise<SDEIndex> {
+  let serialized = await readSerializedIndex(filePath, size, mtimeMs);
+  if (!serialized) {
+    serialized = await buildSerializedIndex(filePath, size, mtimeMs);
+    await writeSerializedIndex(filePath, serialized);
+  }
+
+  return hydrateIndex(serialized, filePath, size, mtimeMs);
+}
+
+/**
+ * Get the index for a JSONL file, building and persisting it when missing or stale
+ */
+export async function getSDEIndex(filePath: string): Promise<SDEIndex> {
+  const { size, mtimeMs } = await stat(filePath);
+
+  const cached = loadedIndexes.get(filePath);
+  if (cached) {
+    const index = await cached;
+    if (index.size === size && index.mtimeMs === mtimeMs) {
+      return index;
+    }
+  }
+
+  const loading = loadIndex(filePath, size, mtimeMs);
+  loadedIndexes.set(filePath, loading);
+  loading.catch(() => loadedIndexes.delete(filePath));
+  return loading;
+}
+
+/**
+ * Read and parse the given lines of an indexed file, in the order requested
+ */
+export async function readIndexedRecords<T>(index: SDEIndex, lineIndices: number[]): Promise<T[]> {
+  if (lineIndices.length === 0) {
+    return [];
+  }
+
+  const handle = await open(index.filePath, 'r');
+  try {
+    const records: T[] = [];
+    for (const lineIndex of lineIndices) {
+      const buffer = Buffer.alloc(index.lengths[lineIndex]);
+      await handle.read(buffer, 0, buffer.length, index.offsets[lineIndex]);
+      records.push(JSON.parse(buffer.toString('utf-8')) as T);
+    }
+    return records;
+  } finally {
+    await handle.close();
+  }
+}
@@ -1,6 +1,12 @@
 import { createInterface } from 'readline';
 import { createReadStream } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { Readable } from 'stream';
 import { join } from 'path';
+import { getSDEIndex, readIndexedRecords, type IndexedField, type SDEIndex } from './sde-index';
+import { getSDEPack, type SDEPack, type SDEPackFile } from './sde-pack';
+import { checkSDERecord } from './sde-schema';
+import type { SDEBuildInfo, SDEMetadataResponse } from './sde-types';
 
 export interface SDERecord {
   _key: number;
@@ -10,34 +16,117 @@ export interface SDERecord {
 const SDE_DATA_PATH = join(process.cwd(), 'public', 'sde');
 
 /**
- * Get a readable stream for a file from the public/sde directory
+ * Storage backend: 'pack' requires a built pack, 'jsonl' reads public/sde directly,
+ * and by default the pack is used whenever one exists
  */
-function getFileStream(filename: string): NodeJS.ReadableStream {
+const SDE_BACKEND = process.env.SDE_BACKEND;
+
+/**
+ * Build metadata file shipped with the SDE, holding its build number and release date
+ */
+const SDE_METADATA_FILE = '_sde.jsonl';
+
+/**
+ * Files modified further apart than this are reported as modified at different times
+ */
+const MODIFIED_APART_THRESHOLD_MS = 6 * 60 * 60 * 1000;
+
+const loggedWarnings = new Set<string>();
+
+/**
+ * Get the SDE pack, or null when reading JSONL directly
+ */
+async function getActivePack(): Promise<SDEPack | null> {
+  if (SDE_BACKEND === 'jsonl') {
+    return null;
+  }
+
+  const pack = await getSDEPack();
+  if (!pack && SDE_BACKEND === 'pack') {
+    throw new Error('SDE_BACKEND is "pack" but no SDE pack was found, run npm run sde:pack');
+  }
+  return pack;
+}
+
+/**
+ * Get a file's region of the SDE pack, or null when reading JSONL directly
+ */
+async function getPackFile(filename: string): Promise<SDEPackFile | null> {
+  const pack = await getActivePack();
+  if (!pack) {
+    return null;
+  }
+
+  const file = pack.files.get(filename);
+  if (!file) {
+    throw new Error(`${filename} is not in the SDE pack, rebuild it with npm run sde:pack`);
+  }
+  return file;
+}
+
+interface SDEFileSource {
+  stream: NodeJS.ReadableStream;
+  /**
+   * Source JSONL line of each line in the stream, when the stream is not the JSONL file itself
+   * Pack data holds one line per record, so line n of the stream is sourceLines[n - 1]
+   */
+  sourceLines: number[] | null;
+}
+
+/**
+ * Get a readable stream for a file from the SDE pack or the public/sde directory
+ */
+async function getFileSource(filename: string): Promise<SDEFileSource> {
+  const packFile = await getPackFile(filename);
+  if (packFile) {
+    if (packFile.dataLength === 0) {
+      return { stream: Readable.from([]), sourceLines: [] };
+    }
+    return {
+      stream: createReadStream(packFile.index.filePath, {
+        encoding: 'utf-8',
+        start: packFile.dataOffset,
+        end: packFile.dataOffset + packFile.dataLength - 1,
+      }),
+      sourceLines: packFile.index.lines,
+    };
+  }
+
   const filePath = join(SDE_DATA_PATH, filename);
-  return createReadStream(filePath, { encoding: 'utf-8' });
+  return { stream: createReadStream(filePath, { encoding: 'utf-8' }), sourceLines: null };
 }
 
 /**
- * Load all records from a JSONL file into memory
- * Use for small files like regions, constellations, systems
- * Optional filter predicate to reduce memory usage during streaming
+ * Get the byte-offset index for a file from the SDE pack or the public/sde directory
  */
-export async function loadAllRecords<T extends SDERecord>(
+async function getFileIndex(filename: string): Promise<SDEIndex> {
+  const packFile = await getPackFile(filename);
+  return packFile ? packFile.index : getSDEIndex(join(SDE_DATA_PATH, filename));
+}
+
+/**
+ * Read every record of a JSONL stream into a map keyed by _key
+ * Records are validated against the file's schema before filtering
+ */
+async function collectRecords<T extends SDERecord>(
   filename: string,
+  { stream, sourceLines }: SDEFileSource,
   filter?: (record: T) => boolean
 ): Promise<Map<number, T>> {
   const records = new Map<number, T>();
-  const fileStream = getFileStream(filename);
+  let lineNumber = 0;
 
   const rl = createInterface({
-    input: fileStream,
+    input: stream,
     crlfDelay: Infinity,
   });
 
   for await (const line of rl) {
+    lineNumber++;
     if (line.trim()) {
-      const record = JSON.parse(line) as T;
-      if (!filter || filter(record)) {
+      const sourceLine = sourceLines?.[lineNumber - 1] ?? lineNumber;
+      const record = checkSDERecord<T>(filename, JSON.parse(line), sourceLine);
+      if (record && (!filter || filter(record))) {
         records.set(record._key, record);
       }
     }
@@ -46,6 +135,52 @@ export async function loadAllRecords<T extends SDERecord>(
   return records;
 }
 
+/**
+ * Read the given lines through an index and validate them against the file's schema
+ */
+async function readValidatedRecords<T extends SDERecord>(
+  filename: string,
+  index: SDEIndex,
+  lineIndices: number[]
+): Promise<T[]> {
+  const records = await readIndexedRecords<unknown>(index, lineIndices);
+
+  return records
+    .map((record, i) => checkSDERecord<T>(filename, record, index.lines[lineIndices[i]]))
+    .filter((record): record is T => record !== null);
+}
+
+/**
+ * Load all records from a JSONL file into memory
+ * Use for small files like regions, constellations, systems
+ * Optional filter predicate to reduce memory usage during streaming
+ */
+export async function loadAllRecords<T extends SDERecord>(
+  filename: string,
+  filter?: (record: T) => boolean
+): Promise<Map<number, T>> {
+  return collectRecords(filename, await getFileSource(filename), filter);
+}
+
+/**
+ * Load all records from a JSONL file in another SDE directory, such as an older release
+ * Always reads the JSONL file directly, never the pack
+ */
+export async function loadAllRecordsFromDirectory<T extends SDERecord>(
+  directory: string,
+  filename: string,
+  filter?: (record: T) => boolean
+): Promise<Map<number, T>> {
+  return collectRecords(
+    filename,
+    {
+      stream: createReadStream(join(directory, filename), { encoding: 'utf-8' }),
+      sourceLines: null,
+    },
+    filter
+  );
+}
+
 /**
  * Stream and filter records from a JSONL file
  * Use for large files like planets, moons when you only need specific records
@@ -55,17 +190,20 @@ export async function findRecords<T extends SDERecord>(
   predicate: (record: T) => boolean
 ): Promise<T[]> {
   const results: T[] = [];
-  const fileStream = getFileStream(filename);
+  const { stream, sourceLines } = await getFileSource(filename);
+  let lineNumber = 0;
 
   const rl = createInterface({
-    input: fileStream,
+    input: stream,
     crlfDelay: Infinity,
   });
 
   for await (const line of rl) {
+    lineNumber++;
     if (line.trim()) {
-      const record = JSON.parse(line) as T;
-      if (predicate(record)) {
+      const sourceLine = sourceLines?.[lineNumber - 1] ?? lineNumber;
+      const record = checkSDERecord<T>(filename, JSON.parse(line), sourceLine);
+      if (record && predicate(record)) {
         results.push(record);
       }
     }
@@ -76,26 +214,214 @@ export async function findRecords<T extends SDERecord>(
 
 /**
  * Find a single record by key
+ * Uses the file's byte-offset index, so only the matching line is read
  */
 export async function findRecordByKey<T extends SDERecord>(
   filename: string,
   key: number
 ): Promise<T | null> {
-  const fileStream = getFileStream(filename);
+  const index = await getFileIndex(filename);
+  const lineIndex = index.byKey.get(key);
+  if (lineIndex === undefined) {
+    return null;
+  }
 
-  const rl = createInterface({
-    input: fileStream,
-    crlfDelay: Infinity,
-  });
+  const [record] = await readValidatedRecords<T>(filename, index, [lineIndex]);
+  return record ?? null;
+}
 
-  for await (const line of rl) {
-    if (line.trim()) {
-      const record = JSON.parse(line) as T;
-      if (record._key === key) {
-        return record;
+/**
+ * Find records by key, skipping keys that do not exist
+ * Uses the file's byte-offset index, so only the matching lines are read
+ */
+export async function findRecordsByKeys<T extends SDERecord>(
+  filename: string,
+  keys: Iterable<number>
+): Promise<T[]> {
+  const index = await getFileIndex(filename);
+  const lineIndices: number[] = [];
+
+  for (const key of new Set(keys)) {
+    const lineIndex = index.byKey.get(key);
+    if (lineIndex !== undefined) {
+      lineIndices.push(lineIndex);
+    }
+  }
+
+  return readValidatedRecords<T>(
+    filename,
+    index,
+    lineIndices.sort((a, b) => a - b)
+  );
+}
+
+/**
+ * Find all records whose foreign key field has the given value, in file order
+ * Uses the file's byte-offset index, so only the matching lines are read
+ */
+export async function findRecordsByField<T extends SDERecord>(
+  filename: string,
+  field: IndexedField,
+  value: number
+): Promise<T[]> {
+  const index = await getFileIndex(filename);
+  const lineIndices = index.byField.get(field)?.get(value) ?? [];
+
+  return readValidatedRecords<T>(filename, index, lineIndices);
+}
+
+function toBuildInfo(record: Record<string, unknown> | undefined): SDEBuildInfo | null {
+  if (!record || typeof record.buildNumber !== 'number') {
+    return null;
+  }
+  return {
+    buildNumber: record.buildNumber,
+    releaseDate: typeof record.releaseDate === 'string' ? record.releaseDate : null,
+  };
+}
+
+/**
+ * Read the build metadata from an SDE directory, public/sde by default
+ */
+export async function readSDEBuildInfo(directory = SDE_DATA_PATH): Promise<SDEBuildInfo | null> {
+  try {
+    const text = await readFile(join(directory, SDE_METADATA_FILE), 'utf-8');
+    const line = text.split('\n').find((l) => l.trim());
+    return line ? toBuildInfo(JSON.parse(line)) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the build metadata that was compiled into the SDE pack
+ */
+async function readPackBuildInfo(pack: SDEPack): Promise<SDEBuildInfo | null> {
+  const file = pack.files.get(SDE_METADATA_FILE);
+  if (!file || file.index.offsets.length === 0) {
+    return null;
+  }
+
+  const [record] = await readIndexedRecords<Record<string, unknown>>(file.index, [0]);
+  return toBuildInfo(record);
+}
+
+/**
+ * List the JSONL files in the public/sde directory with their size and modification time
+ */
+async function listJsonlFiles(): Promise<
+  Array<{ filename: string; size: number; mtimeMs: number }>
+> {
+  let filenames: string[];
+  try {
+    filenames = (await readdir(SDE_DATA_PATH)).filter((f) => f.endsWith('.jsonl')).sort();
+  } catch {
+    return [];
+  }
+
+  return Promise.all(
+    filenames.map(async (filename) => {
+      const { size, mtimeMs } = await stat(join(SDE_DATA_PATH, filename));
+      return { filename, size, mtimeMs };
+    })
+  );
+}
+
+/**
+ * Heuristic: flag files whose modification time is far from the build metadata file (or the median)
+ * Only _sde.jsonl carries a build number, so per-file builds can't be compared; files extracted
+ * from one SDE archive share a timestamp, so outliers were likely copied in separately, but copying
+ * or touching files changes their times, so this can both miss mixed files and flag matching ones
+ */
+function findFilesModifiedApart(files: Array<{ filename: string; mtimeMs: number }>): string[] {
+  if (files.length < 2) {
+    return [];
+  }
+
+  const metadataFile = files.find((f) => f.filename === SDE_METADATA_FILE);
+  const sorted = files.map((f) => f.mtimeMs).sort((a, b) => a - b);
+  const reference = metadataFile?.mtimeMs ?? sorted[Math.floor(sorted.length / 2)];
+
+  return files
+    .filter((f) => Math.abs(f.mtimeMs - reference) > MODIFIED_APART_THRESHOLD_MS)
+    .map((f) => f.filename);
+}
+
+/**
+ * Describe the SDE being served: backend, build number and files
+ * Also reports (and logs once) signs of a stale SDE and files modified at different times
+ */
+export async function getSDEMetadata(): Promise<SDEMetadataResponse> {
+  const [pack, jsonlFiles, jsonlBuild] = await Promise.all([
+    getActivePack(),
+    listJsonlFiles(),
+    readSDEBuildInfo(),
+  ]);
+
+  const warnings: string[] = [];
+  let build: SDEBuildInfo | null;
+  let files: Array<{ filename: string; mtimeMs: number }>;
+
+  if (pack) {
+    build = await readPackBuildInfo(pack);
+    files = Array.from(pack.files, ([filename, file]) => ({
+      filename,
+      mtimeMs: file.sourceMtimeMs,
+    }));
+
+    if (build && jsonlBuild && build.buildNumber !== jsonlBuild.buildNumber) {
+      warnings.push(
+        `SDE pack was built from build ${build.buildNumber} but public/sde contains build ${jsonlBuild.buildNumber}, rebuild it with npm run sde:pack`
+      );
+    } else {
+      const changed = jsonlFiles
+        .filter((f) => {
+          const packFile = pack.files.get(f.filename);
+          return (
+            !packFile || packFile.sourceSize !== f.size || packFile.sourceMtimeMs !== f.mtimeMs
+          );
+        })
+        .map((f) => f.filename);
+
+      if (changed.length > 0) {
+        warnings.push(
+          `public/sde changed since the SDE pack was built (${changed.join(', ')}), rebuild it with npm run sde:pack`
+        );
       }
     }
+  } else {
+    build = jsonlBuild;
+    files = jsonlFiles;
+  }
+
+  if (!build) {
+    warnings.push(
+      `No SDE build metadata found, copy ${SDE_METADATA_FILE} from the SDE archive into public/sde`
+    );
+  }
+
+  const modifiedApart = findFilesModifiedApart(files);
+  if (modifiedApart.length > 0) {
+    warnings.push(
+      `SDE files were modified at different times, check they come from the same SDE download: ${modifiedApart.join(', ')}`
+    );
+  }
+
+  for (const warning of warnings) {
+    if (!loggedWarnings.has(warning)) {
+      loggedWarnings.add(warning);
+      console.warn(`SDE warning: ${warning}`);
+    }
   }
 
-  return null;
+  return {
+    backend: pack ? 'pack' : 'jsonl',
+    build,
+    packCreatedAt: pack?.createdAt ?? null,
+    files: files.map((f) => ({
+      filename: f.filename,
+      modifiedAt: new Date(f.mtimeMs).toISOString(),
+    })),
+    warnings,
+  };
 }
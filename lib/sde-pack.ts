@@ -0,0 +1,252 @@
+/**
+ * Compact single-file SDE store
+ * JSONL files are compiled once into a pack holding minified records plus their lookup indexes
+ *
+ * Layout: 8-byte magic, 4-byte header length (uint32 LE), JSON header, record data
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, open, readdir, rename, stat, unlink } from 'fs/promises';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { dirname, join } from 'path';
+import {
+  addIndexEntry,
+  createIndexData,
+  hydrateIndex,
+  type IndexData,
+  type SDEIndex,
+} from './sde-index';
+
+const PACK_MAGIC = 'ECTSDE01';
+const PACK_VERSION = 2;
+
+export const SDE_PACK_PATH = process.env.SDE_PACK_PATH || join(process.cwd(), 'data', 'sde.pack');
+
+const LANGUAGE_CODES = new Set(['en', 'de', 'es', 'fr', 'ja', 'ko', 'ru', 'zh']);
+
+interface PackFileEntry {
+  dataOffset: number;
+  dataLength: number;
+  records: number;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  index: IndexData;
+}
+
+interface PackHeader {
+  version: number;
+  createdAt: string;
+  languages: string[];
+  files: Record<string, PackFileEntry>;
+}
+
+export interface SDEPackFile {
+  dataOffset: number;
+  dataLength: number;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  index: SDEIndex;
+}
+
+export interface SDEPack {
+  path: string;
+  createdAt: string;
+  languages: string[];
+  files: Map<string, SDEPackFile>;
+}
+
+export interface BuildSDEPackOptions {
+  languages?: string[];
+  onFile?: (filename: string, records: number) => void;
+}
+
+/**
+ * Drop localized strings for languages that are not kept
+ * A localized string is an object whose keys are all language codes and which has English
+ */
+function stripLocalizations(value: unknown, languages: ReadonlySet<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => stripLocalizations(item, languages));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const entries = Object.entries(value);
+  const isLocalized =
+    typeof (value as Record<string, unknown>).en === 'string' &&
+    entries.every(([key]) => LANGUAGE_CODES.has(key));
+
+  if (isLocalized) {
+    return Object.fromEntries(entries.filter(([key]) => languages.has(key)));
+  }
+
+  return Object.fromEntries(
+    entries.map(([key, item]) => [key, stripLocalizations(item, languages)])
+  );
+}
+
+/**
+ * Compile every JSONL file in a directory into a single pack file
+ */
+export async function buildSDEPack(
+  sourceDir: string,
+  outputPath: string,
+  options: BuildSDEPackOptions = {}
+): Promise<void> {
+  const languages = new Set(options.languages ?? ['en']);
+  languages.add('en');
+
+  const filenames = (await readdir(sourceDir)).filter((f) => f.endsWith('.jsonl')).sort();
+  if (filenames.length === 0) {
+    throw new Error(`No JSONL files found in ${sourceDir}`);
+  }
+
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  const dataPath = `${outputPath}.data.tmp`;
+  const packPath = `${outputPath}.tmp`;
+  const data = createWriteStream(dataPath);
+  const header: PackHeader = {
+    version: PACK_VERSION,
+    createdAt: new Date().toISOString(),
+    languages: Array.from(languages),
+    files: {},
+  };
+
+  try {
+    let position = 0;
+
+    for (const filename of filenames) {
+      const sourcePath = join(sourceDir, filename);
+      const { size, mtimeMs } = await stat(sourcePath);
+      const index = createIndexData();
+      const dataOffset = position;
+
+      const rl = createInterface({
+        input: createReadStream(sourcePath, { encoding: 'utf-8' }),
+        crlfDelay: Infinity,
+      });
+
+      let lineNumber = 0;
+      for await (const line of rl) {
+        lineNumber++;
+        if (!line.trim()) continue;
+
+        const record = stripLocalizations(JSON.parse(line), languages) as Record<string, unknown>;
+        const bytes = Buffer.from(`${JSON.stringify(record)}\n`, 'utf-8');
+
+        addIndexEntry(index, record, position - dataOffset, bytes.length - 1, lineNumber);
+        position += bytes.length;
+
+        if (!data.write(bytes)) {
+          await once(data, 'drain');
+        }
+      }
+
+      header.files[filename] = {
+        dataOffset,
+        dataLength: position - dataOffset,
+        records: index.offsets.length,
+        sourceSize: size,
+        sourceMtimeMs: mtimeMs,
+        index,
+      };
+      options.onFile?.(filename, index.offsets.length);
+    }
+
+    data.end();
+    await once(data, 'finish');
+
+    const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+    const prefix = Buffer.alloc(PACK_MAGIC.length + 4);
+    prefix.write(PACK_MAGIC, 0, 'ascii');
+    prefix.writeUInt32LE(headerBytes.length, PACK_MAGIC.length);
+
+    const pack = createWriteStream(packPath);
+    pack.write(prefix);
+    pack.write(headerBytes);
+    for await (const chunk of createReadStream(dataPath)) {
+      if (!pack.write(chunk)) {
+        await once(pack, 'drain');
+      }
+    }
+    pack.end();
+    await once(pack, 'finish');
+
+    await rename(packPath, outputPath);
+  } finally {
+    data.destroy();
+    await unlink(dataPath).catch(() => {});
+    await unlink(packPath).catch(() => {});
+  }
+}
+
+let cachedPack: { promise: Promise<SDEPack | null>; size: number; mtimeMs: number } | null = null;
+
+async function readSDEPack(path: string, size: number, mtimeMs: number): Promise<SDEPack> {
+  const handle = await open(path, 'r');
+  try {
+    const prefix = Buffer.alloc(PACK_MAGIC.length + 4);
+    await handle.read(prefix, 0, prefix.length, 0);
+
+    if (prefix.toString('ascii', 0, PACK_MAGIC.length) !== PACK_MAGIC) {
+      throw new Error(`${path} is not an SDE pack`);
+    }
+
+    const headerLength = prefix.readUInt32LE(PACK_MAGIC.length);
+    const headerBytes = Buffer.alloc(headerLength);
+    await handle.read(headerBytes, 0, headerLength, prefix.length);
+
+    const header = JSON.parse(headerBytes.toString('utf-8')) as PackHeader;
+    if (header.version !== PACK_VERSION) {
+      throw new Error(`Unsupported SDE pack version ${header.version}, rebuild the pack`);
+    }
+
+    const dataStart = prefix.length + headerLength;
+    const files = new Map<string, SDEPackFile>();
+    for (const [filename, entry] of Object.entries(header.files)) {
+      files.set(filename, {
+        dataOffset: dataStart + entry.dataOffset,
+        dataLength: entry.dataLength,
+        sourceSize: entry.sourceSize,
+        sourceMtimeMs: entry.sourceMtimeMs,
+        index: hydrateIndex(entry.index, path, size, mtimeMs, dataStart + entry.dataOffset),
+      });
+    }
+
+    return {
+      path,
+      createdAt: header.createdAt,
+      languages: header.languages,
+      files,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Open the SDE pack, or resolve to null when no pack has been built
+ * The parsed header is cached until the pack file changes
+ */
+export async function getSDEPack(path = SDE_PACK_PATH): Promise<SDEPack | null> {
+  let size: number;
+  let mtimeMs: number;
+  try {
+    ({ size, mtimeMs } = await stat(path));
+  } catch {
+    return null;
+  }
+
+  if (!cachedPack || cachedPack.size !== size || cachedPack.mtimeMs !== mtimeMs) {
+    const promise = readSDEPack(path, size, mtimeMs);
+    cachedPack = { promise, size, mtimeMs };
+    promise.catch(() => {
+      cachedPack = null;
+    });
+  }
+
+  return cachedPack.promise;
+}
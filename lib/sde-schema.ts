@@ -0,0 +1,381 @@
+/**
+ * Runtime validation of SDE records against the shapes in sde-types
+ * Catches reshaped SDE fields at load time, with the file, line and field that failed
+ */
+
+export type SDEValidationMode = 'strict' | 'lenient' | 'off';
+
+const VALIDATION_MODES: SDEValidationMode[] = ['strict', 'lenient', 'off'];
+
+/**
+ * strict throws on the first invalid record, lenient drops invalid optional fields and skips
+ * records with invalid required fields, off trusts the SDE as before
+ */
+export const SDE_VALIDATION_MODE: SDEValidationMode = VALIDATION_MODES.includes(
+  process.env.SDE_VALIDATION as SDEValidationMode
+)
+  ? (process.env.SDE_VALIDATION as SDEValidationMode)
+  : 'lenient';
+
+/**
+ * Issues logged per file in lenient mode before the rest are only counted
+ */
+const MAX_LOGGED_ISSUES = 10;
+
+export interface SDEValidationIssue {
+  field: string;
+  message: string;
+  /** Outermost optional field containing the failure, or null when a required field failed */
+  optionalField: string | null;
+}
+
+export class SDEValidationError extends Error {
+  constructor(
+    readonly file: string,
+    readonly line: number,
+    readonly issues: SDEValidationIssue[]
+  ) {
+    super(
+      `Invalid SDE record at ${file}:${line}: ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`
+    );
+    this.name = 'SDEValidationError';
+  }
+}
+
+type Check = (
+  value: unknown,
+  path: string,
+  issues: SDEValidationIssue[],
+  optionalField: string | null
+) => void;
+
+interface OptionalField {
+  optional: true;
+  check: Check;
+}
+
+type Shape = Record<string, Check | OptionalField>;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive(type: 'number' | 'string' | 'boolean'): Check {
+  return (value, path, issues, optionalField) => {
+    const valid = type === 'number' ? Number.isFinite(value) : typeof value === type;
+    if (!valid) {
+      issues.push({
+        field: path,
+        message: `expected ${type}, got ${describe(value)}`,
+        optionalField,
+      });
+    }
+  };
+}
+
+const number = primitive('number');
+const string = primitive('string');
+const boolean = primitive('boolean');
+
+function optional(check: Check): OptionalField {
+  return { optional: true, check };
+}
+
+function arrayOf(item: Check): Check {
+  return (value, path, issues, optionalField) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        field: path,
+        message: `expected array, got ${describe(value)}`,
+        optionalField,
+      });
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues, optionalField));
+  };
+}
+
+function object(shape: Shape): Check {
+  return (value, path, issues, optionalField) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({
+        field: path || '(record)',
+        message: `expected object, got ${describe(value)}`,
+        optionalField,
+      });
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const [key, spec] of Object.entries(shape)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      const field = record[key];
+
+      if (typeof spec === 'function') {
+        if (field === undefined) {
+          issues.push({ field: fieldPath, message: 'is missing', optionalField });
+        } else {
+          spec(field, fieldPath, issues, optionalField);
+        }
+      } else if (field !== undefined && field !== null) {
+        spec.check(field, fieldPath, issues, optionalField ?? fieldPath);
+      }
+    }
+  };
+}
+
+const localizedName = object({
+  en: string,
+  de: optional(string),
+  es: optional(string),
+  fr: optional(string),
+  ja: optional(string),
+  ko: optional(string),
+  ru: optional(string),
+  zh: optional(string),
+});
+
+const position3D = object({ x: number, y: number, z: number });
+
+const position2D = object({ x: number, y: number });
+
+const celestialAttributes = object({
+  heightMap1: optional(number),
+  heightMap2: optional(number),
+  population: optional(boolean),
+  shaderPreset: optional(number),
+});
+
+const celestialStatistics = object({
+  density: optional(number),
+  eccentricity: optional(number),
+  escapeVelocity: optional(number),
+  locked: optional(boolean),
+  massDust: optional(number),
+  massGas: optional(number),
+  orbitPeriod: optional(number),
+  orbitRadius: optional(number),
+  pressure: optional(number),
+  rotationRate: optional(number),
+  spectralClass: optional(string),
+  surfaceGravity: optional(number),
+  temperature: optional(number),
+});
+
+const regionSchema = object({
+  _key: number,
+  name: localizedName,
+  constellationIDs: arrayOf(number),
+  position: position3D,
+  description: optional(localizedName),
+  factionID: optional(number),
+  nebulaID: optional(number),
+  wormholeClassID: optional(number),
+});
+
+const constellationSchema = object({
+  _key: number,
+  name: localizedName,
+  regionID: number,
+  solarSystemIDs: arrayOf(number),
+  position: position3D,
+  factionID: optional(number),
+  wormholeClassID: optional(number),
+});
+
+const solarSystemSchema = object({
+  _key: number,
+  name: localizedName,
+  constellationID: number,
+  regionID: number,
+  position: position3D,
+  position2D: optional(position2D),
+  securityStatus: number,
+  securityClass: optional(string),
+  planetIDs: optional(arrayOf(number)),
+  stargateIDs: optional(arrayOf(number)),
+  starID: optional(number),
+  radius: optional(number),
+  border: optional(boolean),
+  hub: optional(boolean),
+  international: optional(boolean),
+  regional: optional(boolean),
+  luminosity: optional(number),
+  wormholeClassID: optional(number),
+});
+
+const stargateSchema = object({
+  _key: number,
+  solarSystemID: number,
+  position: position3D,
+  typeID: number,
+  destination: object({ solarSystemID: number, stargateID: number }),
+});
+
+const planetSchema = object({
+  _key: number,
+  celestialIndex: optional(number),
+  position: position3D,
+  radius: optional(number),
+  solarSystemID: number,
+  typeID: number,
+  moonIDs: optional(arrayOf(number)),
+  asteroidBeltIDs: optional(arrayOf(number)),
+  orbitID: optional(number),
+  attributes: optional(celestialAttributes),
+  statistics: optional(celestialStatistics),
+});
+
+const moonSchema = object({
+  _key: number,
+  orbitID: optional(number),
+  orbitIndex: optional(number),
+  position: position3D,
+  radius: optional(number),
+  solarSystemID: number,
+  typeID: number,
+  attributes: optional(celestialAttributes),
+  statistics: optional(celestialStatistics),
+});
+
+const asteroidBeltSchema = object({
+  _key: number,
+  celestialIndex: optional(number),
+  orbitID: optional(number),
+  orbitIndex: optional(number),
+  position: position3D,
+  radius: optional(number),
+  solarSystemID: number,
+  typeID: number,
+  statistics: optional(celestialStatistics),
+});
+
+const starSchema = object({
+  _key: number,
+  position: optional(position3D),
+  radius: optional(number),
+  solarSystemID: number,
+  typeID: number,
+  statistics: optional(
+    object({
+      age: optional(number),
+      life: optional(number),
+      luminosity: optional(number),
+      spectralClass: optional(string),
+      temperature: optional(number),
+    })
+  ),
+});
+
+const stationSchema = object({
+  _key: number,
+  celestialIndex: optional(number),
+  corporationID: optional(number),
+  operationID: optional(number),
+  orbitID: optional(number),
+  orbitIndex: optional(number),
+  ownerID: optional(number),
+  position: position3D,
+  reprocessingEfficiency: optional(number),
+  reprocessingStationsTake: optional(number),
+  security: optional(number),
+  solarSystemID: number,
+  typeID: number,
+  useOperationName: optional(boolean),
+});
+
+/**
+ * Schema for each SDE file whose records have a type in sde-types
+ */
+const SDE_SCHEMAS: Record<string, Check> = {
+  'mapRegions.jsonl': regionSchema,
+  'mapConstellations.jsonl': constellationSchema,
+  'mapSolarSystems.jsonl': solarSystemSchema,
+  'mapStargates.jsonl': stargateSchema,
+  'mapPlanets.jsonl': planetSchema,
+  'mapMoons.jsonl': moonSchema,
+  'mapAsteroidBelts.jsonl': asteroidBeltSchema,
+  'mapStars.jsonl': starSchema,
+  'npcStations.jsonl': stationSchema,
+};
+
+const loggedIssueCounts = new Map<string, number>();
+
+/**
+ * List everything wrong with a record, or nothing when the file has no schema
+ */
+export function validateSDERecord(filename: string, record: unknown): SDEValidationIssue[] {
+  const schema = SDE_SCHEMAS[filename];
+  const issues: SDEValidationIssue[] = [];
+  schema?.(record, '', issues, null);
+  return issues;
+}
+
+function logLenientIssue(filename: string, line: number, message: string) {
+  const count = (loggedIssueCounts.get(filename) ?? 0) + 1;
+  loggedIssueCounts.set(filename, count);
+
+  if (count <= MAX_LOGGED_ISSUES) {
+    console.warn(`SDE validation: ${filename}:${line} ${message}`);
+  }
+  if (count === MAX_LOGGED_ISSUES) {
+    console.warn(`SDE validation: further issues in ${filename} are not logged`);
+  }
+}
+
+/**
+ * Delete a field by its issue path, e.g. "statistics" or "planets[2].radius"
+ */
+function deleteField(record: unknown, path: string) {
+  const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.');
+  const last = segments.pop() as string;
+
+  let target = record as Record<string, unknown> | undefined;
+  for (const segment of segments) {
+    target = target?.[segment] as Record<string, unknown> | undefined;
+  }
+  if (target) {
+    delete target[last];
+  }
+}
+
+/**
+ * Validate a parsed record according to the validation mode
+ * Returns the record (with invalid optional fields removed in lenient mode), or null to skip it
+ * Throws SDEValidationError in strict mode
+ */
+export function checkSDERecord<T>(
+  filename: string,
+  record: unknown,
+  line: number,
+  mode: SDEValidationMode = SDE_VALIDATION_MODE
+): T | null {
+  if (mode === 'off') {
+    return record as T;
+  }
+
+  const issues = validateSDERecord(filename, record);
+  if (issues.length === 0) {
+    return record as T;
+  }
+
+  if (mode === 'strict') {
+    throw new SDEValidationError(filename, line, issues);
+  }
+
+  const describeIssues = (list: SDEValidationIssue[]) =>
+    list.map((i) => `${i.field} ${i.message}`).join('; ');
+
+  if (issues.some((issue) => issue.optionalField === null)) {
+    logLenientIssue(filename, line, `skipped record: ${describeIssues(issues)}`);
+    return null;
+  }
+
+  for (const issue of issues) {
+    deleteField(record, issue.optionalField as string);
+  }
+  logLenientIssue(filename, line, `dropped invalid fields: ${describeIssues(issues)}`);
+  return record as T;
+}
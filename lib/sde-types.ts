@@ -49,7 +49,7 @@ export interface SolarSystem {
   constellationID: number;
   regionID: number;
   position: Position3D;
-  position2D: Position2D;
+  position2D?: Position2D;
   securityStatus: number;
   securityClass?: string;
   planetIDs?: number[];
@@ -61,6 +61,7 @@ export interface SolarSystem {
   international?: boolean;
   regional?: boolean;
   luminosity?: number;
+  wormholeClassID?: number;
   [key: string]: unknown;
 }
 
@@ -202,14 +203,41 @@ export interface Station {
   [key: string]: unknown;
 }
 
+export interface StargateConnection {
+  from: number;
+  to: number;
+}
+
 export interface MapDataResponse {
   regions: Region[];
   constellations: Constellation[];
   systems: SolarSystem[];
-  stargateConnections: Array<{
-    from: number;
-    to: number;
-  }>;
+  stargateConnections: StargateConnection[];
+}
+
+/**
+ * Every system in every kind of space, served by /api/map/systems
+ */
+export interface SolarSystemListResponse {
+  systems: SolarSystem[];
+}
+
+export interface SDEBuildInfo {
+  buildNumber: number;
+  releaseDate: string | null;
+}
+
+export interface SDEFileInfo {
+  filename: string;
+  modifiedAt: string;
+}
+
+export interface SDEMetadataResponse {
+  backend: 'pack' | 'jsonl';
+  build: SDEBuildInfo | null;
+  packCreatedAt: string | null;
+  files: SDEFileInfo[];
+  warnings: string[];
 }
 
 export interface SystemDetailResponse {
@@ -222,3 +250,88 @@ export interface SystemDetailResponse {
   stargates: Stargate[];
   stations: Station[];
 }
+
+export interface RouteHop {
+  systemId: number;
+  name: string;
+  securityStatus: number;
+  regionId: number;
+  regionName: string;
+}
+
+export interface RouteResponse {
+  origin: number;
+  destination: number;
+  waypoints: number[];
+  preference: 'shortest' | 'secure' | 'insecure';
+  jumps: number;
+  route: RouteHop[];
+}
+
+export interface SDESystemRef {
+  systemId: number;
+  name: string;
+  regionId: number;
+  regionName: string;
+}
+
+export interface SDERegionRef {
+  regionId: number;
+  name: string;
+}
+
+export interface SDEStationRef {
+  stationId: number;
+  typeId: number;
+  corporationId: number | null;
+  system: SDESystemRef;
+}
+
+export interface SDEDiffResponse {
+  from: { label: string; build: SDEBuildInfo | null };
+  to: { label: string; build: SDEBuildInfo | null };
+  regions: {
+    added: SDERegionRef[];
+    removed: SDERegionRef[];
+    renamed: Array<SDERegionRef & { oldName: string }>;
+  };
+  systems: {
+    added: SDESystemRef[];
+    removed: SDESystemRef[];
+    renamed: Array<SDESystemRef & { oldName: string }>;
+    securityChanged: Array<SDESystemRef & { oldSecurity: number; newSecurity: number }>;
+    moved: Array<
+      SDESystemRef & {
+        oldRegionId: number;
+        oldRegionName: string;
+        oldConstellationId: number;
+        constellationId: number;
+      }
+    >;
+  };
+  stargates: {
+    added: Array<{ from: SDESystemRef; to: SDESystemRef }>;
+    removed: Array<{ from: SDESystemRef; to: SDESystemRef }>;
+  };
+  stations: {
+    added: SDEStationRef[];
+    removed: SDEStationRef[];
+  };
+}
+
+export interface PublicWormholeConnection {
+  id: string;
+  /** Thera or Turnur */
+  hubSystemId: number;
+  systemId: number;
+  type: string | null;
+  maxShipSize: string | null;
+  expiresAt: string | null;
+}
+
+export interface PublicWormholeResponse {
+  source: string;
+  connections: PublicWormholeConnection[];
+  /** SDE records for every system at either end of a connection */
+  systems: SolarSystem[];
+}
@@ -0,0 +1,142 @@
+/**
+ * Nullsec sovereignty structures, ADM and campaigns, shared by the sovereignty routes and the map
+ */
+
+export const SOV_STRUCTURE_TYPE_NAMES: Record<number, string> = {
+  32226: 'TCU',
+  32458: 'IHub',
+};
+
+/**
+ * Activity Defense Multiplier bounds; a higher ADM makes the system's structures harder to take
+ */
+export const MIN_ADM = 1;
+export const MAX_ADM = 6;
+
+export interface SovereigntyStructure {
+  structure_id: number;
+  structure_type_id: number;
+  vulnerable_start_time: string | null;
+  vulnerable_end_time: string | null;
+}
+
+/**
+ * Per-system structure state
+ */
+export interface SovereigntySystemStructures {
+  /** Highest occupancy level among the system's structures, null when none report one */
+  adm: number | null;
+  structures: SovereigntyStructure[];
+}
+
+/**
+ * Per-system entry served by /api/alliance-sovereignty
+ * ADM and structures are only present for systems with sovereignty structures
+ */
+export interface AllianceSovereigntySystem extends Partial<SovereigntySystemStructures> {
+  alliance_id: number;
+  alliance_name: string;
+}
+
+/**
+ * Lightness of the alliance color for an ADM, dark for weak systems and bright for strong ones
+ */
+export function getAdmLightness(adm: number): number {
+  const progress = (Math.min(MAX_ADM, Math.max(MIN_ADM, adm)) - MIN_ADM) / (MAX_ADM - MIN_ADM);
+  return 20 + progress * 45;
+}
+
+/**
+ * The alliance's vulnerability window for a system: the earliest window any of its structures has
+ */
+export function getVulnerabilityWindow(
+  structures: SovereigntyStructure[]
+): { start: number; end: number } | null {
+  let window: { start: number; end: number } | null = null;
+
+  for (const structure of structures) {
+    const start = Date.parse(structure.vulnerable_start_time ?? '');
+    const end = Date.parse(structure.vulnerable_end_time ?? '');
+    if (Number.isNaN(start) || Number.isNaN(end)) continue;
+    if (!window || start < window.start) {
+      window = { start, end };
+    }
+  }
+
+  return window;
+}
+
+export type SovereigntyCampaignEventType =
+  | 'tcu_defense'
+  | 'ihub_defense'
+  | 'station_defense'
+  | 'station_freeport';
+
+export const SOV_CAMPAIGN_EVENT_LABELS: Record<SovereigntyCampaignEventType, string> = {
+  tcu_defense: 'TCU defense',
+  ihub_defense: 'IHub defense',
+  station_defense: 'Station defense',
+  station_freeport: 'Station freeport',
+};
+
+/**
+ * Entosis campaign as served by /api/sovereignty-campaigns
+ * Scores are fractions (0-1); freeport events have no defender
+ */
+export interface SovereigntyCampaign {
+  campaign_id: number;
+  solar_system_id: number;
+  event_type: SovereigntyCampaignEventType;
+  defender_id: number | null;
+  defender_name: string | null;
+  attackers_score: number | null;
+  start_time: string;
+}
+
+export const SOV_CAMPAIGN_COLORS = {
+  active: 'hsl(0, 100%, 60%)',
+  upcoming: 'hsl(30, 100%, 55%)',
+};
+
+export function isCampaignActive(campaign: SovereigntyCampaign, now: number): boolean {
+  return Date.parse(campaign.start_time) <= now;
+}
+
+/**
+ * Time until a campaign starts, or since it started, e.g. "2h 05m 09s", or "2d 7h 30m" when days away
+ */
+export function formatCampaignCountdown(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0');
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return hours > 0 ? `${hours}h ${minutes}m ${seconds}s` : `${minutes}m ${seconds}s`;
+}
+
+function formatUtcTime(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getUTCHours()).padStart(2, '0')}:${String(date.getUTCMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Format a vulnerability window as a UTC time range, e.g. "18:00-22:00 UTC"
+ */
+export function formatVulnerabilityWindow(window: { start: number; end: number }): string {
+  return `${formatUtcTime(window.start)}-${formatUtcTime(window.end)} UTC`;
+}
+
+/**
+ * Format a campaign start as a short UTC date and time, e.g. "Oct 21 19:30 UTC"
+ */
+export function formatCampaignStart(startTime: string): string {
+  const start = Date.parse(startTime);
+  const date = new Date(start).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+  return `${date} ${formatUtcTime(start)} UTC`;
+}
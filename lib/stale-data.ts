@@ -0,0 +1,20 @@
+/**
+ * Out-of-band marker for overlay routes serving their last known data while ESI is failing
+ * The body keeps its usual shape, so consumers that don't check the header are unaffected
+ */
+
+export const STALE_DATA_HEADER = 'X-Data-Stale';
+
+/**
+ * Headers for a stale response: the app's own marker plus the standard HTTP warning
+ */
+export function getStaleDataHeaders(): Record<string, string> {
+  return {
+    [STALE_DATA_HEADER]: 'true',
+    Warning: '110 - "Response is Stale"',
+  };
+}
+
+export function isStaleResponse(response: Response): boolean {
+  return response.headers.get(STALE_DATA_HEADER) === 'true';
+}
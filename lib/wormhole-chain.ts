@@ -0,0 +1,86 @@
+/**
+ * User-entered wormhole connections (the "chain")
+ * Stored in the browser and usable by the route planner as temporary edges
+ */
+
+import type { StargateConnection } from './sde-types';
+
+export const WORMHOLE_MASS_STATUSES = ['stable', 'destabilized', 'critical'] as const;
+
+export type WormholeMassStatus = (typeof WORMHOLE_MASS_STATUSES)[number];
+
+/**
+ * Link colors by mass status, shared by the map layer and the chain panel
+ */
+export const WORMHOLE_MASS_COLORS: Record<WormholeMassStatus, string> = {
+  stable: 'hsl(280, 80%, 65%)',
+  destabilized: 'hsl(35, 100%, 55%)',
+  critical: 'hsl(0, 100%, 60%)',
+};
+
+export interface WormholeLink {
+  id: string;
+  fromId: number;
+  toId: number;
+  /** Wormhole type code, e.g. K162 or B274 */
+  type: string | null;
+  mass: WormholeMassStatus;
+  /** ISO timestamp after which the link is dropped, null when unknown */
+  expiresAt: string | null;
+}
+
+/**
+ * Also used for public connections, which share the expiry field
+ */
+export function isWormholeLinkExpired(link: Pick<WormholeLink, 'expiresAt'>, now: number): boolean {
+  return link.expiresAt !== null && Date.parse(link.expiresAt) <= now;
+}
+
+/**
+ * Milliseconds until a link expires, or null when it has no expiry
+ */
+export function getWormholeLinkTimeLeft(
+  link: Pick<WormholeLink, 'expiresAt'>,
+  now: number
+): number | null {
+  return link.expiresAt !== null ? Math.max(0, Date.parse(link.expiresAt) - now) : null;
+}
+
+/**
+ * Short remaining lifetime such as "5h 12m" or "40m"
+ */
+export function formatWormholeTimeLeft(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const mins = totalMinutes % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${mins}m`;
+  }
+  return `${mins}m`;
+}
+
+/**
+ * Read links from stored JSON, dropping malformed entries
+ */
+export function parseWormholeLinks(value: unknown): WormholeLink[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(
+    (link): link is WormholeLink =>
+      !!link &&
+      typeof link.id === 'string' &&
+      Number.isInteger(link.fromId) &&
+      Number.isInteger(link.toId) &&
+      (link.type === null || typeof link.type === 'string') &&
+      WORMHOLE_MASS_STATUSES.includes(link.mass) &&
+      (link.expiresAt === null || !Number.isNaN(Date.parse(link.expiresAt)))
+  );
+}
+
+/**
+ * Links as connections, for merging into a gate graph
+ */
+export function toWormholeConnections(links: WormholeLink[]): StargateConnection[] {
+  return links.map((link) => ({ from: link.fromId, to: link.toId }));
+}
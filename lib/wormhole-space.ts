@@ -0,0 +1,216 @@
+/**
+ * Wormhole space classes and the cluster layout used by the J-space view
+ * J-space has no stargates, so systems are arranged by class, region and constellation instead
+ */
+
+import { classifyRegion } from './region-space';
+import type { Constellation, MapDataResponse, Region, SolarSystem } from './sde-types';
+
+export interface WormholeClassGroup {
+  id: string;
+  label: string;
+  classIds: number[];
+}
+
+/**
+ * Display groups in layout order, by SDE wormholeClassID
+ */
+export const WORMHOLE_CLASS_GROUPS: WormholeClassGroup[] = [
+  { id: 'c1', label: 'C1', classIds: [1] },
+  { id: 'c2', label: 'C2', classIds: [2] },
+  { id: 'c3', label: 'C3', classIds: [3] },
+  { id: 'c4', label: 'C4', classIds: [4] },
+  { id: 'c5', label: 'C5', classIds: [5] },
+  { id: 'c6', label: 'C6', classIds: [6] },
+  { id: 'thera', label: 'Thera', classIds: [12] },
+  { id: 'shattered', label: 'Shattered', classIds: [13] },
+  { id: 'drifter', label: 'Drifter', classIds: [14, 15, 16, 17, 18] },
+];
+
+const OTHER_GROUP: WormholeClassGroup = { id: 'other', label: 'Other', classIds: [] };
+
+/**
+ * Class group blocks per row of the layout
+ */
+const LAYOUT_COLUMNS = 3;
+
+/**
+ * Spacing between class group blocks, in constellation cells
+ */
+const GROUP_GAP = 3;
+
+/**
+ * Radius of the ring of systems inside a constellation cell, in cells
+ */
+const SYSTEM_RING_RADIUS = 0.3;
+
+/**
+ * Constellation cells per k-space map height, to size the layout when shown beside k-space
+ */
+const CELLS_PER_KSPACE_HEIGHT = 80;
+
+export interface WormholeGroupLabel {
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface WormholeLayout {
+  data: MapDataResponse;
+  /** Class group headings, in the same coordinates as the systems' position2D */
+  labels: WormholeGroupLabel[];
+}
+
+/**
+ * Resolve a system's wormhole class from the system, its constellation or its region
+ */
+export function getWormholeClassId(
+  system: SolarSystem,
+  constellations: Map<number, Constellation>,
+  regions: Map<number, Region>
+): number | undefined {
+  return (
+    system.wormholeClassID ??
+    constellations.get(system.constellationID)?.wormholeClassID ??
+    regions.get(system.regionID)?.wormholeClassID
+  );
+}
+
+export function getWormholeClassGroup(classId: number | undefined): WormholeClassGroup | null {
+  if (classId === undefined) return null;
+  return WORMHOLE_CLASS_GROUPS.find((group) => group.classIds.includes(classId)) ?? null;
+}
+
+/**
+ * Match a J-code search such as "J123", "j1234" or "123456" against a system name
+ */
+export function matchesJCode(systemName: string, query: string): boolean {
+  const match = query.trim().match(/^j?(\d{1,6})$/i);
+  if (!match) return false;
+  return /^J\d{6}$/.test(systemName) && systemName.slice(1).startsWith(match[1]);
+}
+
+/**
+ * Replace the 2D positions of wormhole systems with a cluster layout
+ * Class groups form a grid of blocks, each holding a grid of constellation cells ordered by region,
+ * with the constellation's systems on a small ring. When k-space is loaded too, the blocks are
+ * placed to its right and scaled to match it.
+ */
+export function layoutWormholeSpace(data: MapDataResponse): WormholeLayout {
+  const regions = new Map(data.regions.map((r) => [r._key, r]));
+  const constellations = new Map(data.constellations.map((c) => [c._key, c]));
+
+  const isWormholeSystem = (system: SolarSystem) => {
+    const region = regions.get(system.regionID);
+    return !!region && classifyRegion(region) === 'wspace';
+  };
+
+  const wormholeSystems = data.systems.filter(isWormholeSystem);
+  if (wormholeSystems.length === 0) {
+    return { data, labels: [] };
+  }
+
+  let unit = 1;
+  let originX = 0;
+  let originY = 0;
+
+  const otherSystems = data.systems.filter((system) => !isWormholeSystem(system));
+  if (otherSystems.length > 0) {
+    const xs = otherSystems.map((s) => s.position2D?.x || s.position.x);
+    const ys = otherSystems.map((s) => s.position2D?.y || s.position.y);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+
+    unit = (maxY - minY) / CELLS_PER_KSPACE_HEIGHT || 1;
+    originX = Math.max(...xs) + GROUP_GAP * unit;
+    originY = maxY;
+  }
+
+  const systemsByGroup = new Map<string, Map<number, SolarSystem[]>>();
+  for (const system of wormholeSystems) {
+    const group =
+      getWormholeClassGroup(getWormholeClassId(system, constellations, regions)) ?? OTHER_GROUP;
+
+    let groupConstellations = systemsByGroup.get(group.id);
+    if (!groupConstellations) {
+      groupConstellations = new Map();
+      systemsByGroup.set(group.id, groupConstellations);
+    }
+
+    const members = groupConstellations.get(system.constellationID) ?? [];
+    members.push(system);
+    groupConstellations.set(system.constellationID, members);
+  }
+
+  const sortKey = (constellationId: number) => {
+    const constellation = constellations.get(constellationId);
+    const region = constellation ? regions.get(constellation.regionID) : undefined;
+    return `${region?.name.en ?? ''}\u0000${constellation?.name.en ?? ''}`;
+  };
+
+  const blocks = [...WORMHOLE_CLASS_GROUPS, OTHER_GROUP]
+    .filter((group) => systemsByGroup.has(group.id))
+    .map((group) => {
+      const cells = Array.from(systemsByGroup.get(group.id)!.entries())
+        .sort(([a], [b]) => sortKey(a).localeCompare(sortKey(b)))
+        .map(([, members]) => members.sort((a, b) => a.name.en.localeCompare(b.name.en)));
+      const columns = Math.ceil(Math.sqrt(cells.length));
+      const rows = Math.ceil(cells.length / columns);
+      return { group, cells, columns, rows };
+    });
+
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+  blocks.forEach((block, index) => {
+    const column = index % LAYOUT_COLUMNS;
+    const row = Math.floor(index / LAYOUT_COLUMNS);
+    columnWidths[column] = Math.max(columnWidths[column] ?? 0, block.columns);
+    // One extra cell above each block for its heading
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, block.rows + 1);
+  });
+
+  const positions = new Map<number, { x: number; y: number }>();
+  const labels: WormholeGroupLabel[] = [];
+
+  blocks.forEach((block, index) => {
+    const column = index % LAYOUT_COLUMNS;
+    const row = Math.floor(index / LAYOUT_COLUMNS);
+    const left =
+      columnWidths.slice(0, column).reduce((sum, width) => sum + width, 0) + column * GROUP_GAP;
+    const top = -(
+      rowHeights.slice(0, row).reduce((sum, height) => sum + height, 0) +
+      row * GROUP_GAP
+    );
+
+    labels.push({
+      label: block.group.label,
+      x: originX + (left + block.columns / 2) * unit,
+      y: originY + (top - 0.5) * unit,
+    });
+
+    block.cells.forEach((members, cellIndex) => {
+      const centerX = left + (cellIndex % block.columns) + 0.5;
+      const centerY = top - 1 - Math.floor(cellIndex / block.columns) - 0.5;
+
+      members.forEach((system, memberIndex) => {
+        const angle = (memberIndex / members.length) * Math.PI * 2;
+        const radius = members.length > 1 ? SYSTEM_RING_RADIUS : 0;
+        positions.set(system._key, {
+          x: originX + (centerX + radius * Math.cos(angle)) * unit,
+          y: originY + (centerY + radius * Math.sin(angle)) * unit,
+        });
+      });
+    });
+  });
+
+  return {
+    data: {
+      ...data,
+      systems: data.systems.map((system) => {
+        const position = positions.get(system._key);
+        return position ? { ...system, position2D: position } : system;
+      }),
+    },
+    labels,
+  };
+}
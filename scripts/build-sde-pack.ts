@@ -0,0 +1,38 @@
+/**
+ * Compile public/sde/*.jsonl into the compact SDE pack read by lib/sde-loader
+ *
+ * Usage: npm run sde:pack -- [--source <dir>] [--output <file>] [--languages en,de]
+ */
+
+import { join } from 'path';
+import { stat } from 'fs/promises';
+import { buildSDEPack, SDE_PACK_PATH } from '../lib/sde-pack';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const sourceDir = getArg('source') ?? join(process.cwd(), 'public', 'sde');
+  const outputPath = getArg('output') ?? SDE_PACK_PATH;
+  const languages = getArg('languages')?.split(',').filter(Boolean);
+
+  const startedAt = Date.now();
+  console.log(`Building SDE pack from ${sourceDir}`);
+
+  await buildSDEPack(sourceDir, outputPath, {
+    languages,
+    onFile: (filename, records) => console.log(`  ${filename}: ${records} records`),
+  });
+
+  const { size } = await stat(outputPath);
+  console.log(
+    `Wrote ${outputPath} (${(size / 1024 / 1024).toFixed(1)} MB) in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`
+  );
+}
+
+main().catch((error) => {
+  console.error('Error building SDE pack:', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Run the stand-in ESI server
+ *
+ * Usage: npm run esi:mock -- [--port 8787] [--host 127.0.0.1] [--latency ms] [--error-rate 0-1]
+ *        [--error-status 503] [--error-limit 100] [--expires seconds] [--fixtures dir]
+ * Point the app at it with ESI_BASE_URL=http://127.0.0.1:8787/latest
+ * Listens on loopback only unless --host says otherwise, since /_mock/config is unauthenticated
+ */
+
+import { resolve } from 'path';
+import {
+  createMockESIServer,
+  DEFAULT_MOCK_ESI_OPTIONS,
+  parseMockESIRuntimeOptions,
+  type MockESIRuntimeOptions,
+} from '../lib/mock-esi';
+
+const USAGE =
+  'Usage: npm run esi:mock -- [--port 8787] [--host 127.0.0.1] [--latency ms] [--error-rate 0-1] [--error-status 503] [--error-limit 100] [--expires seconds] [--fixtures dir]';
+
+function parseArgs(args: string[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const match = args[i].match(/^--([\w-]+)(?:=(.*))?$/);
+    if (!match) continue;
+    values.set(match[1], match[2] ?? args[++i] ?? '');
+  }
+  return values;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = Number(args.get('port') ?? process.env.MOCK_ESI_PORT ?? 8787);
+  const host = args.get('host') ?? process.env.MOCK_ESI_HOST ?? '127.0.0.1';
+
+  const runtimeOptions: Partial<MockESIRuntimeOptions> = {};
+  if (args.has('latency')) runtimeOptions.latency = Number(args.get('latency'));
+  if (args.has('error-rate')) runtimeOptions.errorRate = Number(args.get('error-rate'));
+  if (args.has('error-status')) runtimeOptions.errorStatus = Number(args.get('error-status'));
+  if (args.has('error-limit')) runtimeOptions.errorLimit = Number(args.get('error-limit'));
+  if (args.has('expires')) runtimeOptions.expiresSeconds = Number(args.get('expires'));
+
+  const options = parseMockESIRuntimeOptions(runtimeOptions);
+  if (!Number.isInteger(port) || !host || typeof options === 'string') {
+    if (typeof options === 'string') console.error(options);
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const fixturesDir = args.has('fixtures')
+    ? resolve(args.get('fixtures')!)
+    : DEFAULT_MOCK_ESI_OPTIONS.fixturesDir;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${port}/latest`;
+
+  createMockESIServer({ ...options, fixturesDir }).listen(port, host, () => {
+    console.log(`Mock ESI listening on ${url}`);
+    console.log(`Run the app with ESI_BASE_URL=${url}`);
+  });
+}
+
+main();
@@ -0,0 +1,36 @@
+/**
+ * Print a changelog between two SDE directories
+ *
+ * Usage: npm run sde:diff -- <old-dir> [new-dir] [--json]
+ * new-dir defaults to the SDE the app serves (public/sde or the SDE pack)
+ */
+
+import { basename, resolve } from 'path';
+import { diffSDE, formatSDEDiffMarkdown, type SDESource } from '../lib/sde-diff';
+
+function toSource(directory: string | undefined): SDESource {
+  if (!directory) {
+    return { label: 'current' };
+  }
+  const resolved = resolve(directory);
+  return { label: basename(resolved), directory: resolved };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes('--json');
+  const [fromDir, toDir] = args.filter((arg) => !arg.startsWith('--'));
+
+  if (!fromDir) {
+    console.error('Usage: npm run sde:diff -- <old-dir> [new-dir] [--json]');
+    process.exit(1);
+  }
+
+  const diff = await diffSDE(toSource(fromDir), toSource(toDir));
+  process.stdout.write(json ? `${JSON.stringify(diff, null, 2)}\n` : formatSDEDiffMarkdown(diff));
+}
+
+main().catch((error) => {
+  console.error('Error diffing SDE releases:', error);
+  process.exit(1);
+});